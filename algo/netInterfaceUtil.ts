@@ -1,5 +1,6 @@
 import { exec } from 'child_process';
 import cap from 'cap';
+import { linkTypeFromCap } from '../src/server/ipDecoder';
 
 // Filter virtual adapters
 const VIRTUAL_KEYWORDS = ['zerotier', 'vmware', 'hyper-v', 'virtual', 'loopback', 'tap', 'bluetooth', 'wan miniport'];
@@ -37,8 +38,8 @@ function detectTraffic(deviceIndex: number, devices: cap.DeviceInfo[]): Promise<
                 return;
             }
 
-            const linkType = c.open(device.name, 'ip and tcp', 1024 * 1024, buffer);
-            if (linkType === 'ETHERNET') {
+            const linkType = c.open(device.name, 'tcp', 1024 * 1024, buffer);
+            if (linkTypeFromCap(linkType)) {
                 if (c.setMinBytes) {
                     c.setMinBytes(0);
                 }
@@ -80,6 +81,40 @@ async function findByRoute(devices: cap.DeviceInfo[]): Promise<number | undefine
     }
 }
 
+function getPhysicalDevices(devices: cap.DeviceInfo[], excluded: number[] = []) {
+    return devices
+        .map((device, index) => ({ device, index }))
+        .filter(({ device, index }) => {
+            const name = device.description || device.name || '';
+            return !excluded.includes(index) && !isVirtual(name) && device.addresses && device.addresses.length > 0;
+        });
+}
+
+// Physical adapter (skipping excluded indexes) that saw the most TCP traffic in 3 seconds
+export async function findBusiestDevice(devices: cap.DeviceInfo[], excluded: number[] = []): Promise<number | undefined> {
+    const physicalDevices = getPhysicalDevices(devices, excluded);
+    if (physicalDevices.length === 0) return undefined;
+
+    // Detect traffic on physical adapters
+    console.log('Detecting network traffic... (3s)');
+    const results = await Promise.all(
+        physicalDevices.map(async ({ device, index }) => ({
+            index,
+            device,
+            packets: await detectTraffic(index, devices),
+        }))
+    );
+
+    const best = results
+        .filter((r) => r.packets > 0)
+        .sort((a, b) => b.packets - a.packets)[0];
+    if (!best) return undefined;
+
+    const deviceName = best.device.description || best.device.name;
+    console.log(`Using adapter with most traffic: ${best.index} - ${deviceName} (${best.packets} packets)`);
+    return best.index;
+}
+
 async function findDefaultNetworkDevice(instancedDevices?: cap.DeviceInfo[]): Promise<number | undefined> {
     try {
         // Get all devices
@@ -91,38 +126,16 @@ async function findDefaultNetworkDevice(instancedDevices?: cap.DeviceInfo[]): Pr
         }
 
         // Get physical adapters
-        const physicalDevices = devices
-            .map((device, index) => ({ device, index }))
-            .filter(({ device }) => {
-                const name = device.description || device.name || '';
-                return !isVirtual(name) && device.addresses && device.addresses.length > 0;
-            });
+        const physicalDevices = getPhysicalDevices(devices);
 
         if (physicalDevices.length === 0) {
             console.log('No physical adapters found, falling back to route table');
             return await findByRoute(devices);
         }
 
-        // Detect traffic on physical adapters
-        console.log('Detecting network traffic... (3s)');
-        const results = await Promise.all(
-            physicalDevices.map(async ({ device, index }) => ({
-                index,
-                device,
-                packets: await detectTraffic(index, devices),
-            }))
-        );
-
         // Select adapter with most traffic
-        const best = results
-            .filter((r) => r.packets > 0)
-            .sort((a, b) => b.packets - a.packets)[0];
-
-        if (best) {
-            const deviceName = best.device.description || best.device.name;
-            console.log(`Using adapter with most traffic: ${best.index} - ${deviceName} (${best.packets} packets)`);
-            return best.index;
-        }
+        const best = await findBusiestDevice(devices);
+        if (best !== undefined) return best;
 
         // Fallback to route table
         const routeIndex = await findByRoute(devices);
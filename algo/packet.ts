@@ -6,6 +6,7 @@ import pb from './blueprotobuf-esm';
 import path from 'path';
 import type { Logger } from 'winston';
 import type { UserDataManager } from '../src/server/dataManager';
+import type { ParserStats } from '../src/types';
 
 const TRANSLATIONS_DIR = path.join(__dirname, "translations");
 const monsterNames = JSON.parse(fs.readFileSync(TRANSLATIONS_DIR + "/zh.json", "utf-8")).monsters;
@@ -271,13 +272,18 @@ const streamReadString = (reader: BinaryReader) => {
 
 let currentUserUuid = Long.ZERO;
 
+// Distinct unknown notify method ids kept in the parser stats
+const MAX_UNKNOWN_METHOD_IDS = 50;
+
 class PacketProcessor {
     logger: Logger;
     userDataManager: UserDataManager;
+    stats: ParserStats;
 
     constructor({ logger, userDataManager }: { logger: Logger; userDataManager: UserDataManager }) {
         this.logger = logger;
         this.userDataManager = userDataManager;
+        this.stats = { decodeErrors: 0, zstdFailures: 0, unknownMethodIds: {} };
     }
 
     #decompressPayload(buffer: Buffer) {
@@ -285,7 +291,12 @@ class PacketProcessor {
             this.logger.warn('zstdDecompressSync is not available! Please check your Node.js version!');
             return;
         }
-        return zlib.zstdDecompressSync(buffer);
+        try {
+            return zlib.zstdDecompressSync(buffer);
+        } catch (e) {
+            this.stats.zstdFailures++;
+            throw e;
+        }
     }
 
     #processAoiSyncDelta(aoiSyncDelta) {
@@ -318,11 +329,29 @@ class PacketProcessor {
             if (!attackerUuid) continue;
             const isAttackerPlayer = isUuidPlayer(attackerUuid);
             attackerUuid = attackerUuid.shiftRight(16);
+            // Damage dealt by a summoned entity is credited to its owner but kept apart as summon damage
+            const isSummoned = !!syncDamageInfo.TopSummonerId && !!syncDamageInfo.AttackerUuid && !syncDamageInfo.TopSummonerId.eq(syncDamageInfo.AttackerUuid);
+            const summonUid = isSummoned ? syncDamageInfo.AttackerUuid.shiftRight(16).toNumber() : 0;
 
             const value = syncDamageInfo.Value;
             const luckyValue = syncDamageInfo.LuckyValue;
             const damage = value ?? luckyValue ?? Long.ZERO;
-            if (damage.isZero()) continue;
+            if (damage.isZero()) {
+                // Misses and other zero-value hits (immune, absorbed) only count as attempts
+                if (syncDamageInfo.Type !== pb.EDamageType.Heal) {
+                    this.userDataManager.addMiss(
+                        attackerUuid.toNumber(),
+                        skillId,
+                        getDamageElement(syncDamageInfo.Property),
+                        targetUuid.toNumber(),
+                        isAttackerPlayer,
+                        isTargetPlayer,
+                        !!syncDamageInfo.IsMiss,
+                        summonUid,
+                    );
+                }
+                continue;
+            }
 
             // syncDamageInfo.IsCrit doesn't seem to be set by server, use typeFlag instead
             // const isCrit = syncDamageInfo.IsCrit !== null ? syncDamageInfo.IsCrit : false;
@@ -355,7 +384,14 @@ class PacketProcessor {
                     );
                 } else {
                     //玩家受到伤害
-                    this.userDataManager.addTakenDamage(targetUuid.toNumber(), damage.toNumber(), isDead);
+                    this.userDataManager.addTakenDamage(
+                        targetUuid.toNumber(),
+                        damage.toNumber(),
+                        isDead,
+                        attackerUuid.toNumber(),
+                        skillId,
+                        isAttackerPlayer,
+                    );
                 }
                 if (isDead) {
                     this.userDataManager.setAttrKV(targetUuid.toNumber(), 'hp', 0);
@@ -378,61 +414,71 @@ class PacketProcessor {
                             isCauseLucky,
                             hpLessenValue.toNumber(),
                             targetUuid.toNumber(),
+                            summonUid,
+                            getDamageSource(damageSource),
                         );
                     }
+                    if (isDead) {
+                        this.userDataManager.markEnemyDead(targetUuid.toNumber());
+                    }
                 }
             }
 
-            let extra = [];
-            if (isCrit) extra.push('Crit');
-            if (isLucky) extra.push('Lucky');
-            if (isCauseLucky) extra.push('CauseLucky');
-            if (extra.length === 0) extra = ['Normal'];
-
-            const actionType = isHeal ? 'HEAL' : 'DMG';
-
-            let infoStr = `SRC: `;
-            if (isAttackerPlayer) {
-                const attacker = this.userDataManager.getUser(attackerUuid.toNumber());
-                if (attacker.name) {
-                    infoStr += attacker.name;
-                }
-                infoStr += `#${attackerUuid.toString()}(player)`;
-            } else {
-                if (this.userDataManager.enemyCache.name.has(attackerUuid.toNumber())) {
-                    infoStr += this.userDataManager.enemyCache.name.get(attackerUuid.toNumber());
+            // The fight log line is only built when something will use it
+            const fightLog = !!this.userDataManager.globalSettings?.enableFightLog;
+            if (fightLog || this.logger.isDebugEnabled()) {
+                let extra = [];
+                if (isCrit) extra.push('Crit');
+                if (isLucky) extra.push('Lucky');
+                if (isCauseLucky) extra.push('CauseLucky');
+                if (extra.length === 0) extra = ['Normal'];
+
+                const actionType = isHeal ? 'HEAL' : 'DMG';
+
+                let infoStr = `SRC: `;
+                if (isAttackerPlayer) {
+                    const attacker = this.userDataManager.getUser(attackerUuid.toNumber());
+                    if (attacker.name) {
+                        infoStr += attacker.name;
+                    }
+                    infoStr += `#${attackerUuid.toString()}(player)`;
+                    if (summonUid) infoStr += ` via summon #${summonUid}`;
+                } else {
+                    if (this.userDataManager.enemyCache.name.has(attackerUuid.toNumber())) {
+                        infoStr += this.userDataManager.enemyCache.name.get(attackerUuid.toNumber());
+                    }
+                    infoStr += `#${attackerUuid.toString()}(enemy)`;
                 }
-                infoStr += `#${attackerUuid.toString()}(enemy)`;
-            }
 
-            let targetName = '';
-            if (isTargetPlayer) {
-                const target = this.userDataManager.getUser(targetUuid.toNumber());
-                if (target.name) {
-                    targetName += target.name;
-                }
-                targetName += `#${targetUuid.toString()}(player)`;
-            } else {
-                if (this.userDataManager.enemyCache.name.has(targetUuid.toNumber())) {
-                    targetName += this.userDataManager.enemyCache.name.get(targetUuid.toNumber());
+                let targetName = '';
+                if (isTargetPlayer) {
+                    const target = this.userDataManager.getUser(targetUuid.toNumber());
+                    if (target.name) {
+                        targetName += target.name;
+                    }
+                    targetName += `#${targetUuid.toString()}(player)`;
+                } else {
+                    if (this.userDataManager.enemyCache.name.has(targetUuid.toNumber())) {
+                        targetName += this.userDataManager.enemyCache.name.get(targetUuid.toNumber());
+                    }
+                    targetName += `#${targetUuid.toString()}(enemy)`;
                 }
-                targetName += `#${targetUuid.toString()}(enemy)`;
+                infoStr += ` TGT: ${targetName}`;
+
+                const dmgLogArr = [
+                    `[${actionType}]`,
+                    `DS: ${getDamageSource(damageSource)}`,
+                    infoStr,
+                    `ID: ${skillId}`,
+                    `VAL: ${damage}`,
+                    `HPLSN: ${hpLessenValue}`,
+                    `ELEM: ${damageElement.slice(-1)}`,
+                    `EXT: ${extra.join('|')}`,
+                ];
+                const dmgLog = dmgLogArr.join(' ');
+                this.logger.debug(dmgLog);
+                if (fightLog) this.userDataManager.addLog(dmgLog);
             }
-            infoStr += ` TGT: ${targetName}`;
-
-            const dmgLogArr = [
-                `[${actionType}]`,
-                `DS: ${getDamageSource(damageSource)}`,
-                infoStr,
-                `ID: ${skillId}`,
-                `VAL: ${damage}`,
-                `HPLSN: ${hpLessenValue}`,
-                `ELEM: ${damageElement.slice(-1)}`,
-                `EXT: ${extra.join('|')}`,
-            ];
-            const dmgLog = dmgLogArr.join(' ');
-            this.logger.info(dmgLog);
-            this.userDataManager.addLog(dmgLog);
         }
     }
 
@@ -699,6 +745,7 @@ class PacketProcessor {
                 case AttrType.AttrHp: {
                     const enemyHp = reader.int32();
                     this.userDataManager.enemyCache.hp.set(enemyUid as any, enemyHp);
+                    if (enemyHp === 0) this.userDataManager.markEnemyDead(Number(enemyUid));
                     // Ensure a fallback name as soon as we see any attribute
                     const cur = this.userDataManager.enemyCache.name.get(enemyUid as any);
                     if (!cur || /^\d+$/.test(String(cur))) {
@@ -821,10 +868,16 @@ class PacketProcessor {
             case NotifyMethod.SyncNearDeltaInfo:
                 this.#processSyncNearDeltaInfo(msgPayload);
                 break;
-            default:
+            default: {
                 // Ignorar method IDs desconocidos silenciosamente
                 this.logger.debug(`Skipping NotifyMsg with methodId ${methodId}`);
+                const key = `0x${methodId.toString(16)}`;
+                const unknown = this.stats.unknownMethodIds;
+                if (key in unknown || Object.keys(unknown).length < MAX_UNKNOWN_METHOD_IDS) {
+                    unknown[key] = (unknown[key] || 0) + 1;
+                }
                 break;
+            }
         }
         return;
     }
@@ -833,6 +886,19 @@ class PacketProcessor {
         this.logger.debug(`Unimplemented processing return`);
     }
 
+    getLocalPlayerUuid(): Long {
+        return currentUserUuid;
+    }
+
+    // Used when rebuilding a recorded session that started after the UUID was announced.
+    // Pass notify = false to only swap the UUID back without touching the data manager.
+    setLocalPlayerUuid(uuid: Long, notify = true) {
+        currentUserUuid = uuid || Long.ZERO;
+        if (notify && !currentUserUuid.isZero()) {
+            this.userDataManager.setLocalPlayerUid(currentUserUuid.shiftRight(16).toNumber());
+        }
+    }
+
     processPacket(packets: Buffer) {
         try {
             const packetsReader = new BinaryReader(packets);
@@ -876,6 +942,7 @@ class PacketProcessor {
                 }
             } while (packetsReader.remaining() > 0);
         } catch (e) {
+            this.stats.decodeErrors++;
             this.logger.error(`Fail while parsing data for player ${currentUserUuid.shiftRight(16)}.\nErr: ${e}`);
         }
     }
@@ -22,6 +22,7 @@ export default defineConfig({
                 input: {
                     index: path.resolve(__dirname, 'src/main/index.ts'),
                     server: path.resolve(__dirname, 'src/main/server.ts'),
+                    parserWorker: path.resolve(__dirname, 'src/server/parserWorker.ts'),
                 },
                 external: ['electron', 'child_process', 'fs', 'path', 'net', 'url']
             }
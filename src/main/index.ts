@@ -639,7 +639,7 @@ async function createWindow(): Promise<void> {
     ipcMain.on("open-device-window", async () => {
         await openChildWindow(
             "device",
-            { width: 600, height: 420 },
+            { width: 600, height: 700 },
             "Select Network Device",
         );
     });
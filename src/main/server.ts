@@ -1,4 +1,3 @@
-import winston from "winston";
 import readline from "readline";
 import path from "path";
 import { promises as fsPromises } from "fs";
@@ -8,8 +7,9 @@ import { Server as SocketIOServer } from "socket.io";
 import zlib from "zlib";
 import type { GlobalSettings, PlayerRegistry } from "../../src/types/index";
 import { UserDataManager } from "../../src/server/dataManager";
-import Sniffer from "../../src/server/sniffer";
+import Sniffer, { parseReplaySpeed } from "../../src/server/sniffer";
 import initializeApi from "../../src/server/api";
+import { createLogger } from "../../src/server/logger";
 import PacketProcessor from "../../algo/packet";
 
 const USER_DATA_DIR =
@@ -30,6 +30,7 @@ const globalSettings: GlobalSettings = {
     onlyRecordEliteDummy: false,
     enableFightLog: false,
     enableHistorySave: false,
+    enableSessionRecording: false,
     lastPausedAt: null,
     lastResumedAt: null,
     manualGroup: {
@@ -52,17 +53,7 @@ interface ErrorWithCode extends Error {
 }
 
 async function main(): Promise<void> {
-    const logger = winston.createLogger({
-        level: "info",
-        format: winston.format.combine(
-            winston.format.colorize({ all: true }),
-            winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
-            winston.format.printf((info) => {
-                return `[${info.timestamp}] [${info.level}] ${info.message}`;
-            }),
-        ),
-        transports: [new winston.transports.Console()],
-    });
+    const logger = createLogger();
 
     console.clear();
     console.log("###################################################");
@@ -111,16 +102,16 @@ async function main(): Promise<void> {
         current_arg_index++;
     }
 
-    const deviceNum = globalSettings?.selectedDevice || args[current_arg_index];
+    // Offline replay: --replay <file> [--replay-speed <multiplier|max>]
+    const replayIndex = args.indexOf("--replay");
+    const replayFile = replayIndex !== -1 ? args[replayIndex + 1] : undefined;
+    const replaySpeedIndex = args.indexOf("--replay-speed");
+    const replaySpeedArg =
+        replaySpeedIndex !== -1 ? args[replaySpeedIndex + 1] : undefined;
+    const replaySpeed =
+        replaySpeedArg === undefined ? 1 : parseReplaySpeed(replaySpeedArg);
 
-    try {
-        sniffer.setPacketProcessor(PacketProcessor);
-        await sniffer.start(deviceNum, sniffer.getPacketProcessor());
-    } catch (error) {
-        logger.error(`Error starting sniffer: ${(error as Error).message}`);
-        rl.close();
-        process.exit(1);
-    }
+    const deviceNum = globalSettings?.selectedDevice || args[current_arg_index];
 
     // Set log level: default to 'info' in development, 'error' in production. Allow override via LOG_LEVEL env.
     const effectiveLevel =
@@ -131,6 +122,33 @@ async function main(): Promise<void> {
         `Logger level set to '${logger.level}' (NODE_ENV=${process.env.NODE_ENV || "unknown"})`,
     );
 
+    try {
+        sniffer.setPacketProcessor(PacketProcessor);
+        if (replayFile) {
+            if (replaySpeed === null) {
+                throw new Error(
+                    `Invalid --replay-speed "${replaySpeedArg}", expected a multiplier above 0 or "max"`,
+                );
+            }
+            await fsPromises.access(replayFile);
+            sniffer
+                .replay(replayFile, sniffer.getPacketProcessor(), {
+                    speed: replaySpeed,
+                })
+                .catch((error) => {
+                    logger.error(`Replay failed: ${(error as Error).message}`);
+                    rl.close();
+                    process.exit(1);
+                });
+        } else {
+            await sniffer.start(deviceNum, sniffer.getPacketProcessor());
+        }
+    } catch (error) {
+        logger.error(`Error starting sniffer: ${(error as Error).message}`);
+        rl.close();
+        process.exit(1);
+    }
+
     process.on("SIGINT", async () => {
         console.log("\nClosing application...");
         rl.close();
@@ -192,9 +210,9 @@ async function main(): Promise<void> {
     console.log("Welcome to BPSR Meter!");
     console.log("Detecting game server, please wait...");
 
-    // Interval to clean IP and TCP fragment cache
+    // Encounter end detection (boss killed, combat timeout)
     setInterval(() => {
-        userDataManager.checkTimeoutClear();
+        userDataManager.encounters.tick();
     }, 1000);
 }
 
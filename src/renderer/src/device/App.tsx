@@ -1,12 +1,13 @@
 import React from "react";
 import { DevicePicker } from "./components/DevicePicker";
+import { CaptureHealthPanel } from "./components/CaptureHealthPanel";
 import DeviceControlBar from "./components/DeviceControlBar";
 import { useWindowControls } from "../shared/hooks";
 
 export default function DeviceApp(): React.JSX.Element {
     const { handleDragStart, handleClose } = useWindowControls({
         baseWidth: 480,
-        baseHeight: 530,
+        baseHeight: 760,
         windowType: "device",
     });
 
@@ -18,6 +19,7 @@ export default function DeviceApp(): React.JSX.Element {
                 onClose={handleClose}
             />
             <DevicePicker />
+            <CaptureHealthPanel />
         </div>
     );
 }
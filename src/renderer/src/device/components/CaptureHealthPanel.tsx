@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { CaptureHealth } from "../../shared/types";
+
+type StageState = "ok" | "warn" | "bad";
+
+interface Stage {
+    label: string;
+    state: StageState;
+    detail: string;
+}
+
+// A stage counts as failing for this long after its last error
+const RECENT_ERROR_MS = 30000;
+// No packet for this long means capture has stalled
+const PACKET_STALL_MS = 5000;
+
+const STAGE_COLORS: Record<StageState, string> = {
+    ok: "#2ecc71",
+    warn: "#ffbd59",
+    bad: "#ff6b7a",
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${Math.round(bytes)} B`;
+}
+
+function formatAgo(time: number | null, now: number): string {
+    if (!time) return "never";
+    const seconds = Math.max(0, Math.floor((now - time) / 1000));
+    if (seconds < 60) return `${seconds}s ago`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+}
+
+// Where the pipeline breaks: device -> TCP reassembly -> frame parsing
+function getStages(
+    health: CaptureHealth,
+    lastParseErrorAt: number | null,
+    now: number,
+): Stage[] {
+    const stalled =
+        !health.lastPacketAt || now - health.lastPacketAt > PACKET_STALL_MS;
+    const capture: Stage = health.paused
+        ? { label: "Capture", state: "warn", detail: "Paused" }
+        : !health.running && !health.replaying
+          ? { label: "Capture", state: "bad", detail: "Not running" }
+          : stalled
+            ? { label: "Capture", state: "bad", detail: "No packets" }
+            : { label: "Capture", state: "ok", detail: "Receiving" };
+
+    const recentGap =
+        !!health.tcp.lastGapAt && now - health.tcp.lastGapAt < RECENT_ERROR_MS;
+    const reassembly: Stage = !health.server
+        ? { label: "Reassembly", state: "warn", detail: "No game server" }
+        : recentGap
+          ? { label: "Reassembly", state: "bad", detail: "Losing data" }
+          : { label: "Reassembly", state: "ok", detail: "In order" };
+
+    const parsing: Stage =
+        lastParseErrorAt && now - lastParseErrorAt < RECENT_ERROR_MS
+            ? { label: "Parsing", state: "bad", detail: "Decode errors" }
+            : health.tcp.frames === 0
+              ? { label: "Parsing", state: "warn", detail: "No frames" }
+              : { label: "Parsing", state: "ok", detail: "Decoding" };
+
+    return [capture, reassembly, parsing];
+}
+
+export function CaptureHealthPanel(): React.JSX.Element | null {
+    const [health, setHealth] = useState<CaptureHealth | null>(null);
+    const [lastParseErrorAt, setLastParseErrorAt] = useState<number | null>(
+        null,
+    );
+    const parseErrorsRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        const poll = async () => {
+            try {
+                const resp = await fetch("/api/debug/status");
+                const json = await resp.json();
+                if (!mounted || !json?.capture) return;
+                const capture: CaptureHealth = json.capture;
+                const errors =
+                    capture.parser.decodeErrors + capture.parser.zstdFailures;
+                if (
+                    parseErrorsRef.current !== null &&
+                    errors > parseErrorsRef.current
+                ) {
+                    setLastParseErrorAt(Date.now());
+                }
+                parseErrorsRef.current = errors;
+                setHealth(capture);
+            } catch (err) {
+                // server not reachable yet
+            }
+        };
+        poll();
+        const id = window.setInterval(poll, 1000);
+        return () => {
+            mounted = false;
+            window.clearInterval(id);
+        };
+    }, []);
+
+    if (!health) return null;
+
+    const now = Date.now();
+    const stages = getStages(health, lastParseErrorAt, now);
+    const unknownMethods = Object.entries(health.parser.unknownMethodIds)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5);
+
+    const rows: [string, string][] = [
+        ["Server", health.server ?? "not detected"],
+        [
+            "Packets/s",
+            `${health.packetsPerSecond.toFixed(0)} (${formatBytes(health.bytesPerSecond)}/s)`,
+        ],
+        [
+            "Packets",
+            `${health.packets.toLocaleString()} (${formatBytes(health.bytes)})`,
+        ],
+        ["Frames", health.tcp.frames.toLocaleString()],
+        ["Retransmits", health.tcp.retransmits.toLocaleString()],
+        ["Out of order", health.tcp.outOfOrder.toLocaleString()],
+        [
+            "Gaps",
+            `${health.tcp.gaps} (${formatBytes(health.tcp.droppedBytes)} dropped)`,
+        ],
+        ["Resyncs", health.tcp.resyncs.toLocaleString()],
+        ["Decode errors", health.parser.decodeErrors.toLocaleString()],
+        ["Zstd failures", health.parser.zstdFailures.toLocaleString()],
+        ["Last combat event", formatAgo(health.lastCombatEventAt, now)],
+        ["Duplicates dropped", health.duplicates.toLocaleString()],
+        ["Failovers", health.failovers.toLocaleString()],
+        ...health.devices.map((device): [string, string] => [
+            device.description || device.name,
+            `${device.linkType}, ${device.packets.toLocaleString()} packets, game ${formatAgo(device.lastGameTrafficAt, now)}`,
+        ]),
+    ];
+
+    return (
+        <div className="capture-health">
+            <div className="capture-health-stages">
+                {stages.map((stage) => (
+                    <div
+                        key={stage.label}
+                        className="capture-health-stage"
+                        style={{ borderColor: STAGE_COLORS[stage.state] }}
+                    >
+                        <span>{stage.label}</span>
+                        <span style={{ color: STAGE_COLORS[stage.state] }}>
+                            {stage.detail}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <div className="capture-health-grid">
+                {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                        <span className="capture-health-label">{label}</span>
+                        <span>{value}</span>
+                    </React.Fragment>
+                ))}
+                {unknownMethods.length > 0 && (
+                    <>
+                        <span className="capture-health-label">
+                            Unknown methods
+                        </span>
+                        <span>
+                            {unknownMethods
+                                .map(([id, count]) => `${id} ×${count}`)
+                                .join(", ")}
+                        </span>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default CaptureHealthPanel;
@@ -1,8 +1,14 @@
 import React, { useEffect, useState } from "react";
 
+// The setting holds one device, a list of them, or nothing for "auto"
+function toSelection(value: unknown): string[] {
+    if (value === null || value === undefined || value === "auto") return [];
+    return (Array.isArray(value) ? value : [value]).map(String);
+}
+
 export function DevicePicker(): React.JSX.Element {
     const [devices, setDevices] = useState<any[]>([]);
-    const [selected, setSelected] = useState<string | number | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
     const [saving, setSaving] = useState<boolean>(false);
 
@@ -32,7 +38,7 @@ export function DevicePicker(): React.JSX.Element {
                 const resp = await fetch("/api/device");
                 const json = await resp.json();
                 if (json && json.code === 0 && json.data) {
-                    setSelected(json.data.selectedDevice ?? null);
+                    setSelected(toSelection(json.data.selectedDevice));
                 }
             } catch (err) {
                 // ignore
@@ -40,14 +46,23 @@ export function DevicePicker(): React.JSX.Element {
         })();
     }, []);
 
+    // Toggles a device; captures run on every checked device at once
     const handleSave = async (device: number) => {
+        const id = String(device);
+        const next = selected.includes(id)
+            ? selected.filter((d) => d !== id)
+            : [...selected, id];
+        if (next.length === 0 || saving) return;
         setSaving(true);
         try {
-            setSelected(device);
+            setSelected(next);
+            const devices = next.map(Number);
             const resp = await fetch("/api/device", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ selectedDevice: device }),
+                body: JSON.stringify({
+                    selectedDevice: devices.length === 1 ? devices[0] : devices,
+                }),
             });
             const json = await resp.json();
             if (json && json.code === 0) {
@@ -71,15 +86,12 @@ export function DevicePicker(): React.JSX.Element {
                         </div>
                     )}
                     {devices.map((d) => (
-                        <label
-                            key={d.id}
-                            className="device-item"
-                            onClick={() => handleSave(d.id)}
-                        >
+                        <label key={d.id} className="device-item">
                             <input
-                                type="radio"
+                                type="checkbox"
                                 name="device"
-                                checked={String(selected) === String(d.id)}
+                                checked={selected.includes(String(d.id))}
+                                disabled={saving}
                                 onChange={() => handleSave(d.id)}
                             />
                             <div className="device-meta">
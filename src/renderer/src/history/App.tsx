@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback } from "react";
+import React, { useEffect, useCallback, useState } from "react";
 import {
     HistoryHeader,
     HistoryControls,
@@ -24,6 +24,7 @@ export function HistoryApp(): React.JSX.Element {
         selectedTimestamp,
         summary,
         userData,
+        deaths,
         selectedPlayerSkills,
         isLoadingDetails,
         isLoadingSkills,
@@ -36,6 +37,25 @@ export function HistoryApp(): React.JSX.Element {
     const { isHistorySavingEnabled, toggleHistorySaving } =
         useHistorySettings();
 
+    const [effectiveDamage, setEffectiveDamage] = useState<boolean>(
+        () => localStorage.getItem("effectiveDamage") === "true",
+    );
+
+    const handleToggleEffectiveDamage = useCallback(() => {
+        setEffectiveDamage((prev) => {
+            const next = !prev;
+            try {
+                localStorage.setItem("effectiveDamage", String(next));
+            } catch (e) {
+                console.warn(
+                    "Failed to persist effectiveDamage to localStorage",
+                    e,
+                );
+            }
+            return next;
+        });
+    }, []);
+
     const { playerRegistry, getPlayerName, refreshRegistry } =
         usePlayerRegistry();
 
@@ -132,6 +152,7 @@ export function HistoryApp(): React.JSX.Element {
                         isLoading={isLoadingList}
                         selectedTimestamp={selectedTimestamp}
                         onSelectItem={handleSelectItem}
+                        t={t}
                     />
                 </div>
 
@@ -139,12 +160,15 @@ export function HistoryApp(): React.JSX.Element {
                     <HistoryDetails
                         summary={summary}
                         userData={userData}
+                        deaths={deaths}
                         isLoading={isLoadingDetails}
                         error={detailsError}
                         getPlayerName={getPlayerName}
                         translateProfession={translateProfession}
                         onViewSkills={handleViewSkills}
                         selectedTimestamp={selectedTimestamp}
+                        effectiveDamage={effectiveDamage}
+                        onToggleEffectiveDamage={handleToggleEffectiveDamage}
                         t={t}
                     />
                 </div>
@@ -158,6 +182,9 @@ export function HistoryApp(): React.JSX.Element {
                 translateSkill={translateSkill}
                 t={t}
                 sessionDurationMs={summary ? summary.duration : undefined}
+                sessionStartTime={summary?.startTime}
+                effectiveDamage={effectiveDamage}
+                timestamp={selectedTimestamp}
             />
         </div>
     );
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from "react";
+import { formatStat } from "../../shared/utils/formatters";
+import type { HistoryDamageTaken } from "../types";
+
+export interface DamageTakenTableProps {
+    damageTaken: HistoryDamageTaken;
+    translateSkill: (skillId: string, fallback: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+export function DamageTakenTable({
+    damageTaken,
+    translateSkill,
+    t,
+}: DamageTakenTableProps): React.JSX.Element | null {
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const sources = useMemo(
+        () =>
+            Object.entries(damageTaken.sources)
+                .map(([id, source]) => ({
+                    id,
+                    ...source,
+                    skills: Object.entries(source.skills)
+                        .map(([skillId, skill]) => ({
+                            id: skillId,
+                            ...skill,
+                            name: translateSkill(
+                                skillId,
+                                String(skill.displayName),
+                            ),
+                        }))
+                        .sort((a, b) => b.total - a.total),
+                }))
+                .sort((a, b) => b.total - a.total),
+        [damageTaken, translateSkill],
+    );
+
+    if (sources.length === 0) return null;
+
+    const total = Math.max(1, damageTaken.total);
+    const hit = damageTaken.biggestHit;
+
+    return (
+        <div className="sb-table-wrap">
+            <div
+                className="sb-card-title"
+                style={{ padding: "8px 10px 0", display: "flex", gap: 12 }}
+            >
+                <span>{t("ui.damageTaken.title", "Damage Taken")}</span>
+                {hit && (
+                    <span
+                        style={{
+                            marginLeft: "auto",
+                            fontWeight: 400,
+                            color: "var(--text-secondary)",
+                        }}
+                    >
+                        {t("ui.damageTaken.biggestHit", "Biggest hit")}:{" "}
+                        <strong style={{ color: "#ff6b7a" }}>
+                            {formatStat(hit.value)}
+                        </strong>{" "}
+                        {hit.attackerName} ·{" "}
+                        {translateSkill(
+                            String(hit.skillId),
+                            String(hit.skillName),
+                        )}
+                    </span>
+                )}
+            </div>
+            <table className="sb-table">
+                <thead>
+                    <tr>
+                        <th style={{ width: "36%" }}>
+                            {t("ui.damageTaken.source", "Source")}
+                        </th>
+                        <th>{t("ui.stats.damage", "Damage")}</th>
+                        <th>{t("ui.skills.count", "Hit Count")}</th>
+                        <th>{t("ui.damageTaken.avoided", "Avoided")}</th>
+                        <th>{t("ui.damageTaken.maxHit", "Max Hit")}</th>
+                        <th>{t("ui.damageTaken.share", "% Taken")}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sources.map((source) => {
+                        const isOpen = expanded === source.id;
+                        return (
+                            <React.Fragment key={source.id}>
+                                <tr
+                                    style={{ cursor: "pointer" }}
+                                    onClick={() =>
+                                        setExpanded(isOpen ? null : source.id)
+                                    }
+                                >
+                                    <td className="sb-skill-name">
+                                        <i
+                                            className={`fa-solid fa-chevron-${isOpen ? "down" : "right"}`}
+                                            style={{
+                                                fontSize: 9,
+                                                marginRight: 6,
+                                                opacity: 0.6,
+                                            }}
+                                        ></i>
+                                        {source.name}
+                                    </td>
+                                    <td>{formatStat(source.total)}</td>
+                                    <td>{source.count.toLocaleString()}</td>
+                                    <td>{source.avoided ?? "-"}</td>
+                                    <td>{formatStat(source.maxHit)}</td>
+                                    <td>
+                                        {((source.total / total) * 100).toFixed(
+                                            1,
+                                        )}
+                                        %
+                                    </td>
+                                </tr>
+                                {isOpen &&
+                                    source.skills.map((skill) => (
+                                        <tr key={`${source.id}-${skill.id}`}>
+                                            <td
+                                                style={{
+                                                    paddingLeft: 28,
+                                                    color: "var(--text-secondary)",
+                                                }}
+                                            >
+                                                {skill.name}
+                                            </td>
+                                            <td>{formatStat(skill.total)}</td>
+                                            <td>
+                                                {skill.count.toLocaleString()}
+                                            </td>
+                                            <td>{skill.avoided ?? "-"}</td>
+                                            <td>{formatStat(skill.maxHit)}</td>
+                                            <td>
+                                                {(
+                                                    (skill.total / total) *
+                                                    100
+                                                ).toFixed(1)}
+                                                %
+                                            </td>
+                                        </tr>
+                                    ))}
+                            </React.Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
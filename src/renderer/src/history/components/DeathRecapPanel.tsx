@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { formatDuration, formatStat } from "../../shared/utils/formatters";
+import type { HistoryDeathRecap } from "../types";
+
+export interface DeathRecapPanelProps {
+    deaths: HistoryDeathRecap[];
+    startTime: number;
+    getPlayerName: (uid: string, currentName: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+export function DeathRecapPanel({
+    deaths,
+    startTime,
+    getPlayerName,
+    t,
+}: DeathRecapPanelProps): React.JSX.Element {
+    const [expanded, setExpanded] = useState<number | null>(null);
+
+    return (
+        <div className="sb-card" style={{ marginTop: 12 }}>
+            <div className="sb-card-title">
+                <i
+                    className="fa-solid fa-skull"
+                    style={{ marginRight: 6, color: "#ff6b7a" }}
+                ></i>
+                {t("ui.deathRecap.title", "Deaths")} ({deaths.length})
+            </div>
+
+            {deaths.map((death, index) => {
+                const isOpen = expanded === index;
+                const killingBlow = [...death.events]
+                    .reverse()
+                    .find((e) => e.type === "damage");
+                return (
+                    <div key={`${death.uid}-${death.time}`}>
+                        <div
+                            className="history-stat"
+                            style={{ cursor: "pointer", padding: "4px 0" }}
+                            onClick={() => setExpanded(isOpen ? null : index)}
+                        >
+                            <i
+                                className={`fa-solid fa-chevron-${isOpen ? "down" : "right"}`}
+                            ></i>
+                            <span style={{ minWidth: 48 }}>
+                                {formatDuration(
+                                    Math.max(0, death.time - startTime),
+                                )}
+                            </span>
+                            <strong style={{ color: "var(--text-primary)" }}>
+                                {getPlayerName(String(death.uid), death.name) ||
+                                    death.uid}
+                            </strong>
+                            {killingBlow && (
+                                <span>
+                                    {t("ui.deathRecap.killedBy", "killed by")}{" "}
+                                    {killingBlow.sourceName ||
+                                        t(
+                                            "ui.deathRecap.unknown",
+                                            "Unknown",
+                                        )}{" "}
+                                    · {killingBlow.skillName} (
+                                    {formatStat(killingBlow.value)})
+                                </span>
+                            )}
+                        </div>
+
+                        {isOpen && (
+                            <table
+                                className="sb-table"
+                                style={{ margin: "4px 0 8px" }}
+                            >
+                                <thead>
+                                    <tr>
+                                        <th>
+                                            {t("ui.deathRecap.time", "Time")}
+                                        </th>
+                                        <th>
+                                            {t(
+                                                "ui.deathRecap.source",
+                                                "Source",
+                                            )}
+                                        </th>
+                                        <th>
+                                            {t("ui.skills.skillName", "Skill")}
+                                        </th>
+                                        <th>
+                                            {t(
+                                                "ui.deathRecap.amount",
+                                                "Amount",
+                                            )}
+                                        </th>
+                                        <th>
+                                            {t(
+                                                "ui.deathRecap.hpBefore",
+                                                "HP Before",
+                                            )}
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {death.events.map((event, i) => (
+                                        <tr key={i}>
+                                            <td>
+                                                {(
+                                                    (event.time - death.time) /
+                                                    1000
+                                                ).toFixed(1)}
+                                                s
+                                            </td>
+                                            <td>
+                                                {event.sourceName ||
+                                                    t(
+                                                        "ui.deathRecap.unknown",
+                                                        "Unknown",
+                                                    )}
+                                            </td>
+                                            <td>{event.skillName}</td>
+                                            <td
+                                                style={{
+                                                    color:
+                                                        event.type === "heal"
+                                                            ? "#2ecc71"
+                                                            : "#ff6b7a",
+                                                }}
+                                            >
+                                                {event.type === "heal"
+                                                    ? "+"
+                                                    : "-"}
+                                                {formatStat(event.value)}
+                                            </td>
+                                            <td>
+                                                {event.hpBefore === null
+                                                    ? "-"
+                                                    : death.maxHp
+                                                      ? `${formatStat(event.hpBefore)} (${(
+                                                            (event.hpBefore /
+                                                                death.maxHp) *
+                                                            100
+                                                        ).toFixed(0)}%)`
+                                                      : formatStat(
+                                                            event.hpBefore,
+                                                        )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from "react";
+import { formatStat } from "../../shared/utils/formatters";
+import type { HistoryHealingReceived } from "../types";
+
+export interface HealingReceivedTableProps {
+    healingReceived: HistoryHealingReceived;
+    translateSkill: (skillId: string, fallback: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+export function HealingReceivedTable({
+    healingReceived,
+    translateSkill,
+    t,
+}: HealingReceivedTableProps): React.JSX.Element | null {
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const sources = useMemo(
+        () =>
+            Object.entries(healingReceived.sources)
+                .map(([id, source]) => ({
+                    id,
+                    ...source,
+                    skills: Object.entries(source.skills)
+                        .map(([skillId, skill]) => ({
+                            id: skillId,
+                            ...skill,
+                            name: translateSkill(
+                                skillId,
+                                String(skill.displayName),
+                            ),
+                        }))
+                        .sort((a, b) => b.total - a.total),
+                }))
+                .sort((a, b) => b.total - a.total),
+        [healingReceived, translateSkill],
+    );
+
+    if (sources.length === 0) return null;
+
+    const overhealRate = (overheal: number, total: number): string =>
+        total > 0 ? `${((overheal / total) * 100).toFixed(1)}%` : "-";
+
+    return (
+        <div className="sb-table-wrap">
+            <div
+                className="sb-card-title"
+                style={{ padding: "8px 10px 0", display: "flex", gap: 12 }}
+            >
+                <span>{t("ui.healing.received", "Healing Received")}</span>
+                <span
+                    style={{
+                        marginLeft: "auto",
+                        fontWeight: 400,
+                        color: "var(--text-secondary)",
+                    }}
+                >
+                    {t("ui.healing.effective", "Effective")}:{" "}
+                    <strong style={{ color: "#2ecc71" }}>
+                        {formatStat(healingReceived.effective)}
+                    </strong>{" "}
+                    / {formatStat(healingReceived.total)}
+                </span>
+            </div>
+            <table className="sb-table">
+                <thead>
+                    <tr>
+                        <th style={{ width: "36%" }}>
+                            {t("ui.healing.healer", "Healer")}
+                        </th>
+                        <th>{t("ui.skills.healing", "Healing")}</th>
+                        <th>{t("ui.healing.effective", "Effective")}</th>
+                        <th>{t("ui.healing.overheal", "Overheal")}</th>
+                        <th>{t("ui.skills.count", "Hit Count")}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sources.map((source) => {
+                        const isOpen = expanded === source.id;
+                        return (
+                            <React.Fragment key={source.id}>
+                                <tr
+                                    style={{ cursor: "pointer" }}
+                                    onClick={() =>
+                                        setExpanded(isOpen ? null : source.id)
+                                    }
+                                >
+                                    <td className="sb-skill-name">
+                                        <i
+                                            className={`fa-solid fa-chevron-${isOpen ? "down" : "right"}`}
+                                            style={{
+                                                fontSize: 9,
+                                                marginRight: 6,
+                                                opacity: 0.6,
+                                            }}
+                                        ></i>
+                                        {source.name ||
+                                            t(
+                                                "ui.healing.environment",
+                                                "Other sources",
+                                            )}
+                                    </td>
+                                    <td>{formatStat(source.total)}</td>
+                                    <td>{formatStat(source.effective)}</td>
+                                    <td>
+                                        {overhealRate(
+                                            source.overheal,
+                                            source.total,
+                                        )}
+                                    </td>
+                                    <td>{source.count.toLocaleString()}</td>
+                                </tr>
+                                {isOpen &&
+                                    source.skills.map((skill) => (
+                                        <tr key={`${source.id}-${skill.id}`}>
+                                            <td
+                                                style={{
+                                                    paddingLeft: 28,
+                                                    color: "var(--text-secondary)",
+                                                }}
+                                            >
+                                                {skill.name}
+                                            </td>
+                                            <td>{formatStat(skill.total)}</td>
+                                            <td>
+                                                {formatStat(skill.effective)}
+                                            </td>
+                                            <td>
+                                                {overhealRate(
+                                                    skill.overheal,
+                                                    skill.total,
+                                                )}
+                                            </td>
+                                            <td>
+                                                {skill.count.toLocaleString()}
+                                            </td>
+                                        </tr>
+                                    ))}
+                            </React.Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
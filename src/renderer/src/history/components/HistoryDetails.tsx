@@ -1,32 +1,45 @@
 import React from "react";
 import {
+    formatClock,
     formatDuration,
     formatDate,
     formatStat,
 } from "../../shared/utils/formatters";
-import type { HistorySummary, HistoryUserData } from "../types";
+import { DeathRecapPanel } from "./DeathRecapPanel";
+import type {
+    HistorySummary,
+    HistoryUserData,
+    HistoryUserStats,
+    HistoryDeathRecap,
+} from "../types";
 
 export interface HistoryDetailsProps {
     summary: HistorySummary | null;
     userData: HistoryUserData | null;
+    deaths?: HistoryDeathRecap[];
     isLoading: boolean;
     error: string | null;
     getPlayerName: (uid: string, currentName: string) => string;
     translateProfession: (profession: string) => string;
     onViewSkills: (timestamp: string, uid: string) => void;
     selectedTimestamp: string | null;
+    effectiveDamage?: boolean;
+    onToggleEffectiveDamage?: () => void;
     t: (key: string, fallback?: string | null) => string;
 }
 
 export function HistoryDetails({
     summary,
     userData,
+    deaths,
     isLoading,
     error,
     getPlayerName,
     translateProfession,
     onViewSkills,
     selectedTimestamp,
+    effectiveDamage = false,
+    onToggleEffectiveDamage,
     t,
 }: HistoryDetailsProps): React.JSX.Element {
     if (isLoading) {
@@ -81,14 +94,26 @@ export function HistoryDetails({
         );
     }
 
+    // Effective mode uses HP actually removed; older entries lack effective_dps
+    const getDamage = (user: HistoryUserStats): number =>
+        effectiveDamage ? user.total_damage.hpLessen : user.total_damage.total;
+    const getDps = (user: HistoryUserStats): number => {
+        if (!effectiveDamage) return user.total_dps;
+        if (typeof user.effective_dps === "number") return user.effective_dps;
+        return user.total_damage.total > 0
+            ? (user.total_dps * user.total_damage.hpLessen) /
+                  user.total_damage.total
+            : 0;
+    };
+
     // Sort users by damage
     const sortedUsers = Object.entries(userData).sort(
-        (a, b) => b[1].total_damage.total - a[1].total_damage.total,
+        (a, b) => getDamage(b[1]) - getDamage(a[1]),
     );
 
     // Calculate total damage
     const totalDamage = sortedUsers.reduce(
-        (sum, [, user]) => sum + user.total_damage.total,
+        (sum, [, user]) => sum + getDamage(user),
         0,
     );
 
@@ -111,6 +136,27 @@ export function HistoryDetails({
                             {summary.userCount} {t("ui.messages.players")}
                         </span>
                     </div>
+                    {onToggleEffectiveDamage && (
+                        <button
+                            className={`control-button ${effectiveDamage ? "enabled" : ""}`}
+                            onClick={onToggleEffectiveDamage}
+                            title={t(
+                                "ui.buttons.toggleEffectiveDamage",
+                                "Show effective damage (HP removed)",
+                            )}
+                            style={{
+                                marginLeft: "auto",
+                                padding: "4px 10px",
+                                fontSize: "11px",
+                            }}
+                        >
+                            <i
+                                className={`fa-solid fa-toggle-${effectiveDamage ? "on" : "off"}`}
+                                style={{ marginRight: "6px" }}
+                            ></i>
+                            {t("ui.effective.title", "Effective Damage")}
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -118,7 +164,7 @@ export function HistoryDetails({
                 {sortedUsers.map(([uid, user], index) => {
                     const percentage =
                         totalDamage > 0
-                            ? (user.total_damage.total / totalDamage) * 100
+                            ? (getDamage(user) / totalDamage) * 100
                             : 0;
                     const rank = index + 1;
                     const playerName = getPlayerName(uid, user.name);
@@ -146,20 +192,83 @@ export function HistoryDetails({
                             <div className="player-stats">
                                 <div className="player-stat">
                                     <span className="stat-label">
-                                        {t("ui.stats.totalDmg")}
+                                        {effectiveDamage
+                                            ? t(
+                                                  "ui.effective.total",
+                                                  "Eff. Dmg",
+                                              )
+                                            : t("ui.stats.totalDmg")}
                                     </span>
                                     <span className="stat-value">
-                                        {formatStat(user.total_damage.total)}
+                                        {formatStat(getDamage(user))}
                                     </span>
                                 </div>
                                 <div className="player-stat">
                                     <span className="stat-label">
-                                        {t("ui.stats.dps")}
+                                        {effectiveDamage
+                                            ? t("ui.effective.dps", "Eff. DPS")
+                                            : t("ui.stats.dps")}
                                     </span>
                                     <span className="stat-value">
-                                        {formatStat(user.total_dps)}
+                                        {formatStat(getDps(user))}
                                     </span>
                                 </div>
+                                {effectiveDamage && (
+                                    <div className="player-stat">
+                                        <span className="stat-label">
+                                            {t("ui.stats.overkill", "Overkill")}
+                                        </span>
+                                        <span className="stat-value">
+                                            {formatStat(
+                                                user.overkill ??
+                                                    Math.max(
+                                                        0,
+                                                        user.total_damage
+                                                            .total -
+                                                            user.total_damage
+                                                                .hpLessen,
+                                                    ),
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
+                                {!!user.burst_windows?.length && (
+                                    <div
+                                        className="player-stat"
+                                        title={user.burst_windows
+                                            .map(
+                                                (w) =>
+                                                    `${t("ui.burst.best", "Best")} ${w.seconds}s: ${formatStat(w.dps)} @ ${formatClock(w.start - summary.startTime)}`,
+                                            )
+                                            .join("\n")}
+                                    >
+                                        <span className="stat-label">
+                                            {t("ui.burst.best", "Best")}{" "}
+                                            {user.burst_windows[0].seconds}s
+                                        </span>
+                                        <span className="stat-value">
+                                            {formatStat(
+                                                user.burst_windows[0].dps,
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
+                                {typeof user.primary_target_dps ===
+                                    "number" && (
+                                    <div className="player-stat">
+                                        <span className="stat-label">
+                                            {t(
+                                                "ui.stats.targetDps",
+                                                "Target DPS",
+                                            )}
+                                        </span>
+                                        <span className="stat-value">
+                                            {formatStat(
+                                                user.primary_target_dps,
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
                                 <div className="player-stat">
                                     <span className="stat-label">
                                         {t("ui.skills.count", "Hits")}
@@ -168,6 +277,34 @@ export function HistoryDetails({
                                         {formatStat(user.total_count.total)}
                                     </span>
                                 </div>
+                                {typeof user.total_count.miss === "number" && (
+                                    <div className="player-stat">
+                                        <span className="stat-label">
+                                            {t(
+                                                "ui.stats.missPercent",
+                                                "Miss %",
+                                            )}
+                                        </span>
+                                        <span className="stat-value">
+                                            {(
+                                                ((user.total_count.miss +
+                                                    (user.total_count
+                                                        .zero_value || 0)) /
+                                                    Math.max(
+                                                        1,
+                                                        user.total_count.total +
+                                                            user.total_count
+                                                                .miss +
+                                                            (user.total_count
+                                                                .zero_value ||
+                                                                0),
+                                                    )) *
+                                                100
+                                            ).toFixed(1)}
+                                            %
+                                        </span>
+                                    </div>
+                                )}
                                 <div className="player-stat">
                                     <span className="stat-label">
                                         {t("ui.skills.healing", "Heals")}
@@ -176,6 +313,63 @@ export function HistoryDetails({
                                         {formatStat(user.total_healing.total)}
                                     </span>
                                 </div>
+                                {typeof user.total_overheal === "number" &&
+                                    user.total_healing.total > 0 && (
+                                        <div className="player-stat">
+                                            <span className="stat-label">
+                                                {t(
+                                                    "ui.healing.overheal",
+                                                    "Overheal",
+                                                )}
+                                            </span>
+                                            <span className="stat-value">
+                                                {(
+                                                    (user.total_overheal /
+                                                        user.total_healing
+                                                            .total) *
+                                                    100
+                                                ).toFixed(1)}
+                                                %
+                                            </span>
+                                        </div>
+                                    )}
+                                {!!user.summon_damage &&
+                                    user.total_damage.total > 0 && (
+                                        <div className="player-stat">
+                                            <span className="stat-label">
+                                                {t(
+                                                    "ui.summons.title",
+                                                    "Summons",
+                                                )}
+                                            </span>
+                                            <span className="stat-value">
+                                                {(
+                                                    (user.summon_damage /
+                                                        user.total_damage
+                                                            .total) *
+                                                    100
+                                                ).toFixed(1)}
+                                                %
+                                            </span>
+                                        </div>
+                                    )}
+                                {user.healing_received &&
+                                    user.healing_received.total > 0 && (
+                                        <div className="player-stat">
+                                            <span className="stat-label">
+                                                {t(
+                                                    "ui.healing.received",
+                                                    "Healing Received",
+                                                )}
+                                            </span>
+                                            <span className="stat-value">
+                                                {formatStat(
+                                                    user.healing_received
+                                                        .effective,
+                                                )}
+                                            </span>
+                                        </div>
+                                    )}
                                 <div className="player-stat">
                                     <span className="stat-label">
                                         {t("ui.stats.percentDmg", "Share")}
@@ -199,6 +393,15 @@ export function HistoryDetails({
                     );
                 })}
             </div>
+
+            {deaths && deaths.length > 0 && (
+                <DeathRecapPanel
+                    deaths={deaths}
+                    startTime={summary.startTime}
+                    getPlayerName={getPlayerName}
+                    t={t}
+                />
+            )}
         </div>
     );
 }
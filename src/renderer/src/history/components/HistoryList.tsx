@@ -4,13 +4,14 @@ import {
     formatDate,
     formatStat,
 } from "../../shared/utils/formatters";
-import type { HistoryListItem } from "../types";
+import type { HistoryListItem, EncounterOutcome } from "../types";
 
 export interface HistoryListProps {
     historyItems: HistoryListItem[];
     isLoading: boolean;
     selectedTimestamp: string | null;
     onSelectItem: (timestamp: string) => void;
+    t: (key: string, fallback?: string | null) => string;
 }
 
 export function HistoryList({
@@ -18,7 +19,14 @@ export function HistoryList({
     isLoading,
     selectedTimestamp,
     onSelectItem,
+    t,
 }: HistoryListProps): React.JSX.Element {
+    const outcomeLabels: Record<EncounterOutcome, string> = {
+        killed: t("ui.encounter.killed", "Kill"),
+        wiped: t("ui.encounter.wiped", "Wipe"),
+        unknown: t("ui.encounter.ended", "Ended"),
+    };
+
     if (isLoading) {
         return (
             <div className="history-list">
@@ -69,6 +77,8 @@ export function HistoryList({
                     ? formatStat(summary.topDamage.total)
                     : "-";
                 const isActive = selectedTimestamp === timestamp;
+                const encounter = summary?.encounter;
+                const target = encounter?.primaryTarget;
 
                 return (
                     <div
@@ -80,8 +90,24 @@ export function HistoryList({
                         <div className="history-item-header">
                             <i className="fa-solid fa-clock"></i>
                             <span className="history-date">{date}</span>
+                            {encounter?.outcome && (
+                                <span
+                                    className={`encounter-badge encounter-badge-${encounter.outcome}`}
+                                    style={{ marginLeft: "auto" }}
+                                >
+                                    {outcomeLabels[encounter.outcome]}
+                                </span>
+                            )}
                         </div>
                         <div className="history-item-stats">
+                            {target && (
+                                <div className="history-stat">
+                                    <i
+                                        className={`fa-solid ${target.isBoss ? "fa-skull" : "fa-crosshairs"}`}
+                                    ></i>
+                                    <span>{target.name}</span>
+                                </div>
+                            )}
                             <div className="history-stat">
                                 <i className="fa-solid fa-hourglass-half"></i>
                                 <span>{duration}</span>
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { formatClock } from "../../shared/utils/formatters";
+import type {
+    HistoryRotationCheck,
+    HistoryRotationDeviation,
+    HistoryRotationTemplate,
+} from "../types";
+
+export interface RotationCheckPanelProps {
+    timestamp: string;
+    uid: number;
+    translateSkill: (skillId: string, fallback: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+const DEVIATION_COLORS: Record<HistoryRotationDeviation["type"], string> = {
+    missed: "#ff6b7a",
+    order: "#ffbd59",
+    priority: "#9b59b6",
+    idle: "#8a8a8a",
+};
+
+export function RotationCheckPanel({
+    timestamp,
+    uid,
+    translateSkill,
+    t,
+}: RotationCheckPanelProps): React.JSX.Element {
+    const [templates, setTemplates] = useState<HistoryRotationTemplate[]>([]);
+    const [selected, setSelected] = useState<string>("");
+    const [result, setResult] = useState<HistoryRotationCheck | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState<boolean>(false);
+
+    useEffect(() => {
+        fetch("/api/rotations")
+            .then((res) => res.json())
+            .then((res) => setTemplates(res.code === 0 ? res.data : []))
+            .catch(() => setTemplates([]));
+    }, []);
+
+    useEffect(() => {
+        setResult(null);
+        setError(null);
+    }, [timestamp, uid]);
+
+    const runCheck = async () => {
+        setIsChecking(true);
+        setError(null);
+        try {
+            const query = selected
+                ? `?template=${encodeURIComponent(selected)}`
+                : "";
+            const res = await fetch(
+                `/api/history/${timestamp}/rotation-check/${uid}${query}`,
+            );
+            const data = await res.json();
+            if (data.code !== 0) throw new Error(data.msg);
+            setResult(data.data);
+        } catch (err) {
+            setResult(null);
+            setError((err as Error).message || "Failed to check rotation");
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const skillName = (id?: number) =>
+        id === undefined ? "" : translateSkill(String(id), String(id));
+
+    const describe = (d: HistoryRotationDeviation): string => {
+        switch (d.type) {
+            case "missed":
+                return `${skillName(d.skillId)} ×${d.count ?? 1}`;
+            case "order":
+                return `${skillName(d.skillId)} → ${t("ui.rotation.expected", "expected")} ${skillName(d.expectedSkillId)}`;
+            case "priority":
+                return `${skillName(d.skillId)} → ${skillName(d.expectedSkillId)} ${t("ui.rotation.wasReady", "was ready")}`;
+            case "idle":
+                return `${((d.durationMs ?? 0) / 1000).toFixed(1)}s`;
+        }
+    };
+
+    return (
+        <div className="sb-card" style={{ marginTop: 12 }}>
+            <div
+                className="sb-card-title"
+                style={{ display: "flex", alignItems: "center", gap: 8 }}
+            >
+                <span>{t("ui.rotation.check", "Rotation Check")}</span>
+                <select
+                    value={selected}
+                    onChange={(e) => setSelected(e.target.value)}
+                    style={{
+                        marginLeft: "auto",
+                        border: "1px solid var(--border)",
+                        background: "var(--bg-dark)",
+                        color: "var(--text-primary)",
+                        fontSize: 11,
+                    }}
+                >
+                    <option value="">
+                        {t("ui.rotation.autoTemplate", "Match by class")}
+                    </option>
+                    {templates.map((template) => (
+                        <option key={template.name} value={template.name}>
+                            {template.name}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    className="control-button"
+                    onClick={runCheck}
+                    disabled={isChecking}
+                >
+                    {t("ui.rotation.run", "Check")}
+                </button>
+            </div>
+
+            {error && (
+                <div style={{ fontSize: 11, color: "#ff6b7a" }}>{error}</div>
+            )}
+
+            {result && (
+                <>
+                    <div
+                        className="history-stat"
+                        style={{ gap: 12, fontSize: 11, marginBottom: 6 }}
+                    >
+                        <strong
+                            style={{
+                                fontSize: 16,
+                                color:
+                                    result.score >= 90
+                                        ? "#2ecc71"
+                                        : result.score >= 70
+                                          ? "#ffbd59"
+                                          : "#ff6b7a",
+                            }}
+                        >
+                            {result.score}
+                        </strong>
+                        <span>{result.template}</span>
+                        {(
+                            Object.keys(
+                                result.counts,
+                            ) as HistoryRotationDeviation["type"][]
+                        ).map((type) => (
+                            <span
+                                key={type}
+                                style={{ color: DEVIATION_COLORS[type] }}
+                            >
+                                {t(`ui.rotation.${type}`, type)}:{" "}
+                                {result.counts[type]}
+                            </span>
+                        ))}
+                        {!result.isDummy && (
+                            <span style={{ color: "var(--text-secondary)" }}>
+                                {t(
+                                    "ui.rotation.notDummy",
+                                    "Not a training dummy session",
+                                )}
+                            </span>
+                        )}
+                    </div>
+
+                    {result.deviations.length > 0 && (
+                        <table className="sb-table">
+                            <thead>
+                                <tr>
+                                    <th>{t("ui.deathRecap.time", "Time")}</th>
+                                    <th>{t("ui.rotation.type", "Type")}</th>
+                                    <th style={{ width: "60%" }}>
+                                        {t("ui.rotation.details", "Details")}
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.deviations.map((d, i) => (
+                                    <tr key={i}>
+                                        <td>{formatClock(d.t)}</td>
+                                        <td
+                                            style={{
+                                                color: DEVIATION_COLORS[d.type],
+                                            }}
+                                        >
+                                            {t(`ui.rotation.${d.type}`, d.type)}
+                                        </td>
+                                        <td>{describe(d)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from "react";
+import { formatClock, formatStat } from "../../shared/utils/formatters";
+import type { HistoryRotation } from "../types";
+
+export interface RotationTimelineProps {
+    rotation: HistoryRotation;
+    translateSkill: (skillId: string, fallback: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+const LANE_HEIGHT = 18;
+const AXIS_HEIGHT = 18;
+const LABEL_WIDTH = 150;
+const MIN_ZOOM = 2; // px per second
+const MAX_ZOOM = 200;
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+export function RotationTimeline({
+    rotation,
+    translateSkill,
+    t,
+}: RotationTimelineProps): React.JSX.Element | null {
+    const [zoom, setZoom] = useState<number>(20);
+
+    // One lane per skill, in order of first use so the opener reads top-down
+    const lanes = useMemo(() => {
+        const order: string[] = [];
+        const casts: Record<string, HistoryRotation["casts"]> = {};
+        for (const cast of rotation.casts) {
+            const id = String(cast.skillId);
+            if (!casts[id]) {
+                casts[id] = [];
+                order.push(id);
+            }
+            casts[id].push(cast);
+        }
+        return order.map((id) => {
+            const skill = rotation.skills[id];
+            return {
+                id,
+                name: translateSkill(id, String(skill?.displayName ?? id)),
+                isHealing: skill?.type === "治疗",
+                casts: casts[id],
+            };
+        });
+    }, [rotation, translateSkill]);
+
+    if (lanes.length === 0) return null;
+
+    const durationMs =
+        rotation.casts.reduce((max, cast) => Math.max(max, cast.t), 0) + 1000;
+    const width = Math.ceil((durationMs / 1000) * zoom) + 8;
+    const height = AXIS_HEIGHT + lanes.length * LANE_HEIGHT;
+    const tickStep =
+        TICK_STEPS.find((step) => step * zoom >= 60) ??
+        TICK_STEPS[TICK_STEPS.length - 1];
+    const ticks: number[] = [];
+    for (let s = 0; s * 1000 <= durationMs; s += tickStep) ticks.push(s);
+
+    const changeZoom = (factor: number) =>
+        setZoom((prev) =>
+            Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * factor)),
+        );
+
+    return (
+        <div className="sb-card" style={{ marginTop: 12 }}>
+            <div
+                className="sb-card-title"
+                style={{ display: "flex", alignItems: "center", gap: 8 }}
+            >
+                <span>{t("ui.rotation.title", "Rotation")}</span>
+                <span
+                    style={{
+                        fontWeight: 400,
+                        color: "var(--text-secondary)",
+                    }}
+                >
+                    {rotation.casts.length} {t("ui.casts.casts", "Casts")}
+                </span>
+                <span style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+                    <button
+                        className="control-button"
+                        onClick={() => changeZoom(1 / 1.5)}
+                        title={t("ui.buttons.zoomOut")}
+                    >
+                        <i className="fa-solid fa-minus"></i>
+                    </button>
+                    <button
+                        className="control-button"
+                        onClick={() => changeZoom(1.5)}
+                        title={t("ui.buttons.zoomIn")}
+                    >
+                        <i className="fa-solid fa-plus"></i>
+                    </button>
+                </span>
+            </div>
+
+            <div style={{ display: "flex", fontSize: 10 }}>
+                <div style={{ width: LABEL_WIDTH, flexShrink: 0 }}>
+                    <div style={{ height: AXIS_HEIGHT }} />
+                    {lanes.map((lane) => (
+                        <div
+                            key={lane.id}
+                            title={lane.name}
+                            style={{
+                                height: LANE_HEIGHT,
+                                lineHeight: `${LANE_HEIGHT}px`,
+                                paddingRight: 6,
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                                color: "var(--text-secondary)",
+                            }}
+                        >
+                            {lane.name}
+                        </div>
+                    ))}
+                </div>
+
+                <div
+                    style={{ overflowX: "auto", flex: 1 }}
+                    onWheel={(e) => {
+                        // Ctrl + wheel zooms, plain wheel keeps scrolling
+                        if (!e.ctrlKey) return;
+                        changeZoom(e.deltaY < 0 ? 1.25 : 1 / 1.25);
+                    }}
+                >
+                    <svg width={width} height={height}>
+                        {ticks.map((s) => (
+                            <g key={s}>
+                                <line
+                                    x1={s * zoom}
+                                    x2={s * zoom}
+                                    y1={AXIS_HEIGHT - 4}
+                                    y2={height}
+                                    stroke="rgba(255,255,255,0.08)"
+                                />
+                                <text
+                                    x={s * zoom + 2}
+                                    y={AXIS_HEIGHT - 6}
+                                    fill="var(--text-secondary)"
+                                    fontSize={9}
+                                >
+                                    {formatClock(s * 1000)}
+                                </text>
+                            </g>
+                        ))}
+                        {lanes.map((lane, index) => {
+                            const y = AXIS_HEIGHT + index * LANE_HEIGHT;
+                            return (
+                                <g key={lane.id}>
+                                    <rect
+                                        x={0}
+                                        y={y}
+                                        width={width}
+                                        height={LANE_HEIGHT}
+                                        fill={
+                                            index % 2
+                                                ? "rgba(255,255,255,0.02)"
+                                                : "transparent"
+                                        }
+                                    />
+                                    {lane.casts.map((cast, i) => (
+                                        <rect
+                                            key={i}
+                                            x={(cast.t / 1000) * zoom}
+                                            y={y + 3}
+                                            width={3}
+                                            height={LANE_HEIGHT - 6}
+                                            rx={1}
+                                            fill={
+                                                lane.isHealing
+                                                    ? "#2ecc71"
+                                                    : cast.hits > 0
+                                                      ? "#ff6b7a"
+                                                      : "rgba(255,255,255,0.35)"
+                                            }
+                                        >
+                                            <title>
+                                                {`${lane.name} @ ${formatClock(cast.t)} · ${cast.hits} ${t("ui.skills.count", "Hits")} · ${formatStat(cast.damage)}`}
+                                            </title>
+                                        </rect>
+                                    ))}
+                                </g>
+                            );
+                        })}
+                    </svg>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,10 @@
 import React, { useMemo, useState } from "react";
-import { formatStat } from "../../shared/utils/formatters";
-import type { HistoryPlayerSkills } from "../types";
+import { formatClock, formatStat } from "../../shared/utils/formatters";
+import { DamageTakenTable } from "./DamageTakenTable";
+import { HealingReceivedTable } from "./HealingReceivedTable";
+import { RotationTimeline } from "./RotationTimeline";
+import { RotationCheckPanel } from "./RotationCheckPanel";
+import type { HistoryPlayerSkills, HistorySkillData } from "../types";
 
 export interface SkillModalProps {
     playerSkills: HistoryPlayerSkills | null;
@@ -10,12 +14,27 @@ export interface SkillModalProps {
     translateSkill: (skillId: string, fallback: string) => string;
     t: (key: string, fallback?: string | null) => string;
     sessionDurationMs?: number; // duration of the selected combat session for DPS calc
+    sessionStartTime?: number; // places burst windows on the session clock
+    effectiveDamage?: boolean; // show HP actually removed instead of damage dealt
+    timestamp?: string | null; // history entry, for the rotation check
 }
 
-type SortKey = "damage" | "dps" | "hits" | "crit" | "name";
+type SortKey = "damage" | "dps" | "hits" | "casts" | "crit" | "name";
 
 type SparkPoint = { x: number; y: number };
 
+// Older entries lack effectiveDamage/overkill; hpLessen was always saved
+function getShownDamage(s: HistorySkillData, effective: boolean): number {
+    if (!effective || s.type !== "伤害") return s.totalDamage || 0;
+    return s.effectiveDamage ?? s.damageBreakdown?.hpLessen ?? s.totalDamage;
+}
+
+function getOverkill(s: HistorySkillData): number | null {
+    if (s.type !== "伤害") return null;
+    if (typeof s.overkill === "number") return s.overkill;
+    return Math.max(0, s.totalDamage - (s.damageBreakdown?.hpLessen ?? 0));
+}
+
 type PieSlice = {
     id: string;
     name: string;
@@ -33,6 +52,9 @@ export function SkillModal({
     translateSkill,
     t,
     sessionDurationMs,
+    sessionStartTime,
+    effectiveDamage = false,
+    timestamp,
 }: SkillModalProps): React.JSX.Element {
     const isOpen = playerSkills !== null || isLoading;
     const [sortKey, setSortKey] = useState<SortKey>("damage");
@@ -62,7 +84,7 @@ export function SkillModal({
         let critLuckyDamage = 0;
 
         for (const [, s] of Object.entries(playerSkills.skills)) {
-            totalDamage += s.totalDamage || 0;
+            totalDamage += getShownDamage(s, effectiveDamage);
             totalHits += s.totalCount || 0;
             totalCrits += s.critCount || 0;
             totalLuckies += s.luckyCount || 0;
@@ -83,12 +105,12 @@ export function SkillModal({
             luckyDamage,
             critLuckyDamage,
         };
-    }, [playerSkills]);
+    }, [playerSkills, effectiveDamage]);
 
     const rows = useMemo(() => {
         if (!playerSkills) return [] as Array<any>;
         const arr = Object.entries(playerSkills.skills).map(([id, s]) => {
-            const damage = s.totalDamage || 0;
+            const damage = getShownDamage(s, effectiveDamage);
             const hits = s.totalCount || 0;
             const dps = seconds > 0 ? damage / seconds : 0;
             const critRate =
@@ -96,6 +118,18 @@ export function SkillModal({
                     ? (s.critCount / s.totalCount) * 100
                     : s.critRate || 0;
             const avgPerHit = hits > 0 ? damage / hits : 0;
+            const missRate =
+                typeof s.missRate === "number" ? s.missRate * 100 : null;
+            // Only healing skills carry an overheal estimate
+            const overhealRate =
+                s.type === "治疗" &&
+                typeof s.overheal === "number" &&
+                damage > 0
+                    ? (s.overheal / damage) * 100
+                    : null;
+            const overkill = getOverkill(s);
+            // Older entries have no cast grouping
+            const casts = typeof s.casts === "number" ? s.casts : null;
             return {
                 id,
                 name: translateSkill(id, s.displayName),
@@ -104,6 +138,13 @@ export function SkillModal({
                 hits,
                 critRate,
                 avgPerHit,
+                overhealRate,
+                overkill,
+                missRate,
+                casts,
+                hitsPerCast: s.hitsPerCast || 0,
+                avgPerCast: s.avgPerCast || 0,
+                castsPerMinute: s.castsPerMinute || 0,
                 share:
                     aggregates.totalDamage > 0
                         ? (damage / aggregates.totalDamage) * 100
@@ -114,6 +155,7 @@ export function SkillModal({
             damage: (a, b) => b.damage - a.damage,
             dps: (a, b) => b.dps - a.dps,
             hits: (a, b) => b.hits - a.hits,
+            casts: (a, b) => (b.casts ?? -1) - (a.casts ?? -1),
             crit: (a, b) => b.critRate - a.critRate,
             name: (a, b) =>
                 a.name.localeCompare(b.name, undefined, {
@@ -128,9 +170,31 @@ export function SkillModal({
         translateSkill,
         sortKey,
         aggregates.totalDamage,
+        effectiveDamage,
     ]);
 
     // Build a synthetic sparkline DPS curve (for visual context) deterministically from skill ids
+    // Summon damage is already part of the skill rows; shown as its own row
+    const summonRow = useMemo(() => {
+        const summons = playerSkills?.summons;
+        if (!summons || summons.total <= 0) return null;
+        return {
+            entityCount: summons.entityCount,
+            damage: summons.total,
+            dps: seconds > 0 ? summons.total / seconds : 0,
+            hits: summons.count,
+            critRate:
+                summons.count > 0
+                    ? (summons.critCount / summons.count) * 100
+                    : 0,
+            avgPerHit: summons.count > 0 ? summons.total / summons.count : 0,
+            share:
+                aggregates.totalDamage > 0
+                    ? (summons.total / aggregates.totalDamage) * 100
+                    : 0,
+        };
+    }, [playerSkills, seconds, aggregates.totalDamage]);
+
     const sparkPoints: SparkPoint[] = useMemo(() => {
         const points: SparkPoint[] = [];
         const width = 260;
@@ -156,7 +220,7 @@ export function SkillModal({
 
         const skillEntries = Object.entries(playerSkills.skills);
         for (const [id, s] of skillEntries) {
-            const dmg = s.totalDamage || 0;
+            const dmg = getShownDamage(s, effectiveDamage);
             if (dmg <= 0) continue;
             // seeded pseudo-random based on skill id
             let seed = 0;
@@ -192,7 +256,7 @@ export function SkillModal({
         }
 
         return points;
-    }, [playerSkills, aggregates.totalDamage, seconds]);
+    }, [playerSkills, aggregates.totalDamage, seconds, effectiveDamage]);
 
     // Build pie slices for skill distribution (top N + others)
     const pieSlices = useMemo(() => {
@@ -212,7 +276,7 @@ export function SkillModal({
             .map(([id, s]) => ({
                 id,
                 name: translateSkill(id, s.displayName),
-                value: s.totalDamage || 0,
+                value: getShownDamage(s, effectiveDamage),
             }))
             .filter((e) => e.value > 0)
             .sort((a, b) => b.value - a.value);
@@ -244,7 +308,13 @@ export function SkillModal({
             });
         });
         return slices;
-    }, [playerSkills, aggregates.totalDamage, translateSkill, t]);
+    }, [
+        playerSkills,
+        aggregates.totalDamage,
+        translateSkill,
+        t,
+        effectiveDamage,
+    ]);
 
     if (!isOpen) return <></>;
 
@@ -352,6 +422,9 @@ export function SkillModal({
                             <option value="hits">
                                 {t("ui.sort.byHits", "Sort by Hits")}
                             </option>
+                            <option value="casts">
+                                {t("ui.sort.byCasts", "Sort by Casts")}
+                            </option>
                             <option value="crit">
                                 {t("ui.sort.byCrit", "Sort by Crit Rate")}
                             </option>
@@ -492,10 +565,15 @@ export function SkillModal({
                                     <div className="sb-card-metrics">
                                         <div>
                                             <span className="sb-k">
-                                                {t(
-                                                    "ui.stats.totalDmg",
-                                                    "Total",
-                                                )}
+                                                {effectiveDamage
+                                                    ? t(
+                                                          "ui.effective.total",
+                                                          "Eff. Dmg",
+                                                      )
+                                                    : t(
+                                                          "ui.stats.totalDmg",
+                                                          "Total",
+                                                      )}
                                             </span>
                                             <span className="sb-v">
                                                 {formatStat(
@@ -505,7 +583,12 @@ export function SkillModal({
                                         </div>
                                         <div>
                                             <span className="sb-k">
-                                                {t("ui.stats.dps", "DPS")}
+                                                {effectiveDamage
+                                                    ? t(
+                                                          "ui.effective.dps",
+                                                          "Eff. DPS",
+                                                      )
+                                                    : t("ui.stats.dps", "DPS")}
                                             </span>
                                             <span className="sb-v">
                                                 {formatStat(overallDps)}
@@ -541,6 +624,35 @@ export function SkillModal({
                                                 {overallLuckyRate.toFixed(1)}%
                                             </span>
                                         </div>
+                                        {playerSkills.burstWindows?.map((w) => (
+                                            <div key={w.seconds}>
+                                                <span className="sb-k">
+                                                    {t("ui.burst.best", "Best")}{" "}
+                                                    {w.seconds}s
+                                                </span>
+                                                <span
+                                                    className="sb-v"
+                                                    title={formatStat(w.damage)}
+                                                >
+                                                    {formatStat(w.dps)}
+                                                    {sessionStartTime && (
+                                                        <span
+                                                            style={{
+                                                                marginLeft: 4,
+                                                                fontSize: 10,
+                                                                color: "var(--text-secondary)",
+                                                            }}
+                                                        >
+                                                            @
+                                                            {formatClock(
+                                                                w.start -
+                                                                    sessionStartTime,
+                                                            )}
+                                                        </span>
+                                                    )}
+                                                </span>
+                                            </div>
+                                        ))}
                                     </div>
                                 </div>
 
@@ -664,6 +776,21 @@ export function SkillModal({
                                                     "Hit Count",
                                                 )}
                                             </th>
+                                            <th>
+                                                {t("ui.casts.casts", "Casts")}
+                                            </th>
+                                            <th>
+                                                {t(
+                                                    "ui.casts.hitsPerCast",
+                                                    "Hits/Cast",
+                                                )}
+                                            </th>
+                                            <th>
+                                                {t(
+                                                    "ui.casts.avgPerCast",
+                                                    "Avg/Cast",
+                                                )}
+                                            </th>
                                             <th>
                                                 {t(
                                                     "ui.stats.critPercent",
@@ -676,6 +803,26 @@ export function SkillModal({
                                                     "Avg Per Hit",
                                                 )}
                                             </th>
+                                            <th>
+                                                {t(
+                                                    "ui.stats.missPercent",
+                                                    "Miss %",
+                                                )}
+                                            </th>
+                                            {effectiveDamage && (
+                                                <th>
+                                                    {t(
+                                                        "ui.stats.overkill",
+                                                        "Overkill",
+                                                    )}
+                                                </th>
+                                            )}
+                                            <th>
+                                                {t(
+                                                    "ui.healing.overheal",
+                                                    "Overheal",
+                                                )}
+                                            </th>
                                             <th>
                                                 {t(
                                                     "ui.stats.percentDmg",
@@ -695,18 +842,150 @@ export function SkillModal({
                                                 <td>
                                                     {r.hits.toLocaleString()}
                                                 </td>
+                                                <td
+                                                    title={
+                                                        r.casts === null
+                                                            ? undefined
+                                                            : `${r.castsPerMinute.toFixed(1)} ${t("ui.casts.perMinute", "Casts/min")}`
+                                                    }
+                                                >
+                                                    {r.casts === null
+                                                        ? "-"
+                                                        : r.casts.toLocaleString()}
+                                                </td>
+                                                <td>
+                                                    {r.casts === null
+                                                        ? "-"
+                                                        : r.hitsPerCast.toFixed(
+                                                              1,
+                                                          )}
+                                                </td>
+                                                <td>
+                                                    {r.casts === null
+                                                        ? "-"
+                                                        : formatStat(
+                                                              r.avgPerCast,
+                                                          )}
+                                                </td>
                                                 <td>
                                                     {r.critRate.toFixed(2)}%
                                                 </td>
                                                 <td>
                                                     {formatStat(r.avgPerHit)}
                                                 </td>
+                                                <td>
+                                                    {r.missRate === null
+                                                        ? "-"
+                                                        : `${r.missRate.toFixed(1)}%`}
+                                                </td>
+                                                {effectiveDamage && (
+                                                    <td>
+                                                        {r.overkill === null
+                                                            ? "-"
+                                                            : formatStat(
+                                                                  r.overkill,
+                                                              )}
+                                                    </td>
+                                                )}
+                                                <td>
+                                                    {r.overhealRate === null
+                                                        ? "-"
+                                                        : `${r.overhealRate.toFixed(1)}%`}
+                                                </td>
                                                 <td>{r.share.toFixed(1)}%</td>
                                             </tr>
                                         ))}
+                                        {summonRow && (
+                                            <tr
+                                                style={{
+                                                    color: "var(--text-secondary)",
+                                                }}
+                                            >
+                                                <td className="sb-skill-name">
+                                                    <i
+                                                        className="fa-solid fa-paw"
+                                                        style={{
+                                                            marginRight: 6,
+                                                        }}
+                                                    ></i>
+                                                    {t(
+                                                        "ui.summons.title",
+                                                        "Summons",
+                                                    )}{" "}
+                                                    ({summonRow.entityCount})
+                                                </td>
+                                                <td>
+                                                    {formatStat(
+                                                        summonRow.damage,
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {formatStat(summonRow.dps)}
+                                                </td>
+                                                <td>
+                                                    {summonRow.hits.toLocaleString()}
+                                                </td>
+                                                <td>-</td>
+                                                <td>-</td>
+                                                <td>-</td>
+                                                <td>
+                                                    {summonRow.critRate.toFixed(
+                                                        2,
+                                                    )}
+                                                    %
+                                                </td>
+                                                <td>
+                                                    {formatStat(
+                                                        summonRow.avgPerHit,
+                                                    )}
+                                                </td>
+                                                <td>-</td>
+                                                {effectiveDamage && <td>-</td>}
+                                                <td>-</td>
+                                                <td>
+                                                    {summonRow.share.toFixed(1)}
+                                                    %
+                                                </td>
+                                            </tr>
+                                        )}
                                     </tbody>
                                 </table>
                             </div>
+
+                            {playerSkills.rotation && (
+                                <RotationTimeline
+                                    rotation={playerSkills.rotation}
+                                    translateSkill={translateSkill}
+                                    t={t}
+                                />
+                            )}
+
+                            {playerSkills.rotation && timestamp && (
+                                <RotationCheckPanel
+                                    timestamp={timestamp}
+                                    uid={playerSkills.uid}
+                                    translateSkill={translateSkill}
+                                    t={t}
+                                />
+                            )}
+
+                            {playerSkills.damageTaken && (
+                                <DamageTakenTable
+                                    damageTaken={playerSkills.damageTaken}
+                                    translateSkill={translateSkill}
+                                    t={t}
+                                />
+                            )}
+
+                            {playerSkills.healingReceived && (
+                                <HealingReceivedTable
+                                    healingReceived={
+                                        playerSkills.healingReceived
+                                    }
+                                    translateSkill={translateSkill}
+                                    t={t}
+                                />
+                            )}
                         </div>
                     ) : (
                         <div className="empty-state error">
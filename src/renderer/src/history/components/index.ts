@@ -7,9 +7,19 @@ export { HistoryControls } from "./HistoryControls";
 export { HistoryList } from "./HistoryList";
 export { HistoryDetails } from "./HistoryDetails";
 export { SkillModal } from "./SkillModal";
+export { DamageTakenTable } from "./DamageTakenTable";
+export { DeathRecapPanel } from "./DeathRecapPanel";
+export { HealingReceivedTable } from "./HealingReceivedTable";
+export { RotationCheckPanel } from "./RotationCheckPanel";
+export { RotationTimeline } from "./RotationTimeline";
 
 export type { HistoryHeaderProps } from "./HistoryHeader";
 export type { HistoryControlsProps } from "./HistoryControls";
 export type { HistoryListProps } from "./HistoryList";
 export type { HistoryDetailsProps } from "./HistoryDetails";
 export type { SkillModalProps } from "./SkillModal";
+export type { DamageTakenTableProps } from "./DamageTakenTable";
+export type { DeathRecapPanelProps } from "./DeathRecapPanel";
+export type { HealingReceivedTableProps } from "./HealingReceivedTable";
+export type { RotationCheckPanelProps } from "./RotationCheckPanel";
+export type { RotationTimelineProps } from "./RotationTimeline";
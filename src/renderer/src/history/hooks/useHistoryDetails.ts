@@ -3,12 +3,14 @@ import type {
     HistorySummary,
     HistoryUserData,
     HistoryPlayerSkills,
+    HistoryDeathRecap,
 } from "../types";
 
 export interface UseHistoryDetailsReturn {
     selectedTimestamp: string | null;
     summary: HistorySummary | null;
     userData: HistoryUserData | null;
+    deaths: HistoryDeathRecap[];
     selectedPlayerSkills: HistoryPlayerSkills | null;
     isLoadingDetails: boolean;
     isLoadingSkills: boolean;
@@ -24,6 +26,7 @@ export function useHistoryDetails(): UseHistoryDetailsReturn {
     );
     const [summary, setSummary] = useState<HistorySummary | null>(null);
     const [userData, setUserData] = useState<HistoryUserData | null>(null);
+    const [deaths, setDeaths] = useState<HistoryDeathRecap[]>([]);
     const [selectedPlayerSkills, setSelectedPlayerSkills] =
         useState<HistoryPlayerSkills | null>(null);
     const [isLoadingDetails, setIsLoadingDetails] = useState<boolean>(false);
@@ -51,6 +54,17 @@ export function useHistoryDetails(): UseHistoryDetailsReturn {
             setSummary(summaryData.data);
             setUserData(userDataRes.user);
             setIsLoadingDetails(false);
+
+            // Entries saved before death recaps existed have no deaths file
+            try {
+                const deathsRes = await fetch(
+                    `/api/history/${timestamp}/deaths`,
+                );
+                const deathsData = await deathsRes.json();
+                setDeaths(deathsData.code === 0 ? deathsData.data : []);
+            } catch {
+                setDeaths([]);
+            }
         } catch (err) {
             console.error("Failed to load history details:", err);
             setDetailsError("Failed to load combat details");
@@ -91,6 +105,7 @@ export function useHistoryDetails(): UseHistoryDetailsReturn {
         selectedTimestamp,
         summary,
         userData,
+        deaths,
         selectedPlayerSkills,
         isLoadingDetails,
         isLoadingSkills,
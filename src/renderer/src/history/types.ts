@@ -2,6 +2,27 @@
  * Type definitions for History Window
  */
 
+export type EncounterOutcome = "killed" | "wiped" | "unknown";
+
+export interface HistoryEncounter {
+    id: string;
+    startTime: number;
+    endTime: number;
+    startReason: string;
+    endReason: string;
+    outcome: EncounterOutcome;
+    primaryTarget: {
+        id: number;
+        name: string;
+        isBoss: boolean;
+        dead: boolean;
+        hp: number | null;
+        maxHp: number | null;
+    } | null;
+    playerCount: number;
+    totalDamage: number;
+}
+
 export interface HistorySummary {
     startTime: number;
     endTime: number;
@@ -13,12 +34,24 @@ export interface HistorySummary {
         name: string;
         total: number;
     };
+    encounter?: HistoryEncounter | null; // absent in entries saved before encounter tracking
+}
+
+// Best rolling DPS window; start is an absolute time in ms
+export interface HistoryBurstWindow {
+    seconds: number;
+    dps: number;
+    damage: number;
+    start: number;
 }
 
 export interface HistoryUserStats {
     realtime_dps: number;
     realtime_dps_max: number;
     total_dps: number;
+    burst_windows?: HistoryBurstWindow[]; // absent in older history entries
+    effective_dps?: number; // absent in older history entries
+    overkill?: number;
     total_damage: {
         normal: number;
         critical: number;
@@ -33,6 +66,8 @@ export interface HistoryUserStats {
         lucky: number;
         crit_lucky: number;
         total: number;
+        miss?: number; // absent in older history entries
+        zero_value?: number;
     };
     realtime_hps: number;
     realtime_hps_max: number;
@@ -45,6 +80,11 @@ export interface HistoryUserStats {
         hpLessen: number;
         total: number;
     };
+    total_overheal?: number; // absent in older history entries
+    healing_received?: HistoryHealingStats;
+    summon_damage?: number;
+    primary_target_damage?: number;
+    primary_target_dps?: number;
     taken_damage: number;
     profession: string;
     name: string;
@@ -82,6 +122,87 @@ export interface HistorySkillData {
         lucky: number;
         crit_lucky: number;
         total: number;
+        miss?: number; // absent in older history entries
+        zero_value?: number;
+    };
+    overheal?: number;
+    summonDamage?: number;
+    effectiveDamage?: number;
+    overkill?: number;
+    casts?: number; // absent in older history entries
+    hitsPerCast?: number;
+    avgPerCast?: number;
+    castsPerMinute?: number;
+    missCount?: number;
+    zeroCount?: number;
+    missRate?: number;
+}
+
+export interface HistoryTakenStats {
+    total: number;
+    count: number;
+    maxHit: number;
+    avoided?: number; // misses and zero-value hits
+}
+
+export interface HistoryDamageTaken {
+    total: number;
+    count: number;
+    avoided?: number;
+    biggestHit: {
+        value: number;
+        attackerUid: number;
+        attackerName: string;
+        skillId: number;
+        skillName: string | number;
+        time: number;
+    } | null;
+    sources: {
+        [attackerUid: string]: HistoryTakenStats & {
+            name: string;
+            isPlayer: boolean;
+            skills: {
+                [skillId: string]: HistoryTakenStats & {
+                    displayName: string | number;
+                };
+            };
+        };
+    };
+}
+
+export interface HistoryHealingStats {
+    total: number;
+    effective: number;
+    overheal: number;
+    count: number;
+}
+
+export interface HistoryHealingReceived extends HistoryHealingStats {
+    sources: {
+        [healerUid: string]: HistoryHealingStats & {
+            name: string;
+            isPlayer: boolean;
+            skills: {
+                [skillId: string]: HistoryHealingStats & {
+                    displayName: string | number;
+                };
+            };
+        };
+    };
+}
+
+export interface HistorySummons {
+    total: number;
+    count: number;
+    critCount: number;
+    luckyCount: number;
+    entityCount: number;
+    skills: {
+        [skillId: string]: {
+            displayName: string | number;
+            total: number;
+            count: number;
+        };
     };
 }
 
@@ -92,9 +213,76 @@ export interface HistoryPlayerSkills {
     skills: {
         [skillId: string]: HistorySkillData;
     };
+    damageTaken?: HistoryDamageTaken; // absent in older history entries
+    healingReceived?: HistoryHealingReceived;
+    summons?: HistorySummons | null;
+    rotation?: HistoryRotation;
+    burstWindows?: HistoryBurstWindow[];
     attr: Record<string, any>;
 }
 
+// Casts in order; t is ms since the session start
+export interface HistoryRotation {
+    startTime: number;
+    skills: {
+        [skillId: string]: {
+            displayName: string | number;
+            type: string;
+        };
+    };
+    casts: { t: number; skillId: number; hits: number; damage: number }[];
+}
+
+export interface HistoryRotationTemplate {
+    name: string;
+    profession: string;
+    sequence?: number[];
+    priority?: number[];
+    cooldowns?: Record<string, number>;
+    maxIdleMs?: number;
+}
+
+export interface HistoryRotationDeviation {
+    type: "missed" | "order" | "priority" | "idle";
+    t: number;
+    skillId?: number;
+    expectedSkillId?: number;
+    count?: number;
+    durationMs?: number;
+}
+
+export interface HistoryRotationCheck {
+    template: string;
+    profession: string;
+    score: number;
+    casts: number;
+    durationMs: number;
+    isDummy: boolean;
+    counts: Record<HistoryRotationDeviation["type"], number>;
+    deviations: HistoryRotationDeviation[];
+}
+
+export interface HistoryDeathEvent {
+    time: number;
+    type: "damage" | "heal";
+    sourceUid: number;
+    sourceName: string;
+    isPlayerSource: boolean;
+    skillId: number;
+    skillName: string | number;
+    value: number;
+    hpBefore: number | null;
+}
+
+export interface HistoryDeathRecap {
+    time: number;
+    uid: number;
+    name: string;
+    profession: string;
+    maxHp: number | null;
+    events: HistoryDeathEvent[];
+}
+
 export interface HistoryListItem {
     timestamp: string;
     summary?: HistorySummary;
@@ -1,13 +1,17 @@
 import React, { useState, useCallback, useEffect } from "react";
 import { ControlBar } from "./components/ControlBar";
+import { Header } from "./components/Header";
 import { LoadingIndicator } from "./components/LoadingIndicator";
 import { PlayerList } from "./components/PlayerList";
 import { SkillsView } from "./components/SkillsView";
+import { DpsGraph, SMOOTHING_OPTIONS } from "./components/DpsGraph";
+import type { GraphMetric } from "./components/DpsGraph";
 import { useDataFetching } from "./hooks/useDataFetching";
 import { useElectronIntegration } from "./hooks/useElectronIntegration";
 import { usePlayerRegistry } from "./hooks/usePlayerRegistry";
 import { useManualGroup } from "./hooks/useManualGroup";
 import { useTranslations } from "./hooks/useTranslations";
+import { useRollingRates } from "./hooks/useRollingRates";
 import { resetStatistics } from "../shared/api";
 import type { ViewMode, SortColumn, SortDirection } from "../shared/types";
 
@@ -17,6 +21,17 @@ export function MainApp(): React.JSX.Element {
     const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
     const [showAllPlayers, setShowAllPlayers] = useState<boolean>(false);
     const [skillsScope, setSkillsScope] = useState<"solo" | "nearby">("nearby");
+    const [graphMetric, setGraphMetric] = useState<GraphMetric>("dps");
+    const [graphSmoothing, setGraphSmoothing] = useState<number>(() => {
+        const saved = parseInt(
+            localStorage.getItem("graphSmoothing") || "",
+            10,
+        );
+        return SMOOTHING_OPTIONS.includes(saved) ? saved : 5;
+    });
+    const [effectiveDamage, setEffectiveDamage] = useState<boolean>(
+        () => localStorage.getItem("effectiveDamage") === "true",
+    );
     const [visibleColumns, setVisibleColumns] = useState<
         Record<string, boolean>
     >({
@@ -31,6 +46,7 @@ export function MainApp(): React.JSX.Element {
         luckyPercent: true,
         peakDps: true,
         totalHeal: true,
+        targetDps: false,
     });
 
     useEffect(() => {
@@ -119,6 +135,9 @@ export function MainApp(): React.JSX.Element {
         activeBossName,
         activeEnemyId,
         activeEnemyName,
+        encounter,
+        armDummyParse,
+        cancelDummyParse,
     } = useDataFetching({
         viewMode,
         sortColumn,
@@ -130,6 +149,12 @@ export function MainApp(): React.JSX.Element {
         showAllPlayers,
     });
 
+    const rollingRates = useRollingRates(players, graphSmoothing);
+
+    // Running encounter, or the last finished one with its kill/wipe result
+    const shownEncounter = encounter?.current ?? encounter?.last ?? null;
+    const dummyParse = encounter?.dummyParse ?? null;
+
     const handleToggleViewMode = useCallback(() => {
         setViewMode((prev) => (prev === "nearby" ? "solo" : "nearby"));
     }, []);
@@ -138,6 +163,34 @@ export function MainApp(): React.JSX.Element {
         setViewMode((prev) => (prev === "skills" ? "nearby" : "skills"));
     }, []);
 
+    const handleToggleGraphMode = useCallback(() => {
+        setViewMode((prev) => (prev === "graph" ? "nearby" : "graph"));
+    }, []);
+
+    const handleGraphSmoothingChange = useCallback((seconds: number) => {
+        setGraphSmoothing(seconds);
+        try {
+            localStorage.setItem("graphSmoothing", String(seconds));
+        } catch (e) {
+            console.warn("Failed to persist graphSmoothing to localStorage", e);
+        }
+    }, []);
+
+    const handleToggleEffectiveDamage = useCallback(() => {
+        setEffectiveDamage((prev) => {
+            const next = !prev;
+            try {
+                localStorage.setItem("effectiveDamage", String(next));
+            } catch (e) {
+                console.warn(
+                    "Failed to persist effectiveDamage to localStorage",
+                    e,
+                );
+            }
+            return next;
+        });
+    }, []);
+
     const handleToggleSkillsScope = useCallback(() => {
         setSkillsScope((prev) => (prev === "nearby" ? "solo" : "nearby"));
     }, []);
@@ -255,8 +308,11 @@ export function MainApp(): React.JSX.Element {
                 viewMode={viewMode}
                 onToggleViewMode={handleToggleViewMode}
                 onToggleSkillsMode={handleToggleSkillsMode}
+                onToggleGraphMode={handleToggleGraphMode}
                 skillsScope={skillsScope}
                 onToggleSkillsScope={handleToggleSkillsScope}
+                effectiveDamage={effectiveDamage}
+                onToggleEffectiveDamage={handleToggleEffectiveDamage}
                 sortColumn={sortColumn}
                 onSortChange={handleSortChange}
                 onSync={handleSync}
@@ -298,9 +354,30 @@ export function MainApp(): React.JSX.Element {
                 activeBossName={activeBossName}
                 activeEnemyId={activeEnemyId}
                 activeEnemyName={activeEnemyName}
+                dummyParse={dummyParse}
+                onArmDummyParse={armDummyParse}
+                onCancelDummyParse={cancelDummyParse}
                 t={t}
             />
 
+            {(shownEncounter || dummyParse?.state === "armed") && (
+                <Header
+                    title={
+                        shownEncounter?.primaryTarget?.name ??
+                        t("ui.encounter.title", "Encounter")
+                    }
+                    startTime={shownEncounter?.startTime}
+                    endTime={shownEncounter?.endTime}
+                    badge={
+                        encounter?.current
+                            ? "in-combat"
+                            : shownEncounter?.outcome
+                    }
+                    dummyParse={dummyParse}
+                    t={t}
+                />
+            )}
+
             {/* Main content (conditionally rendered) */}
             {isLoading ? (
                 <LoadingIndicator
@@ -324,6 +401,20 @@ export function MainApp(): React.JSX.Element {
                     translateProfession={translateProfession}
                     translateSkill={translateSkill}
                     scope={skillsScope}
+                    effectiveDamage={effectiveDamage}
+                    t={t}
+                />
+            ) : viewMode === "graph" ? (
+                <DpsGraph
+                    series={rollingRates.series}
+                    windowStart={rollingRates.windowStart}
+                    windowEnd={rollingRates.windowEnd}
+                    metric={graphMetric}
+                    onMetricChange={setGraphMetric}
+                    smoothingSeconds={graphSmoothing}
+                    onSmoothingChange={handleGraphSmoothingChange}
+                    localUid={localUid}
+                    getPlayerName={getPlayerName}
                     t={t}
                 />
             ) : (
@@ -334,6 +425,7 @@ export function MainApp(): React.JSX.Element {
                     getPlayerName={getPlayerName}
                     translateProfession={translateProfession}
                     visibleColumns={visibleColumns}
+                    effectiveDamage={effectiveDamage}
                     t={t}
                 />
             )}
@@ -1,6 +1,10 @@
 import React from "react";
 import { DragIndicator } from "./DragIndicator";
 import type { ViewMode, SortColumn } from "../../shared/types";
+import type { DummyParseStatus } from "../hooks/useDataFetching";
+
+// Parse lengths offered by the dummy parse control (server accepts the same)
+const DUMMY_PARSE_MINUTES = [1, 3, 5];
 
 export interface ControlBarProps {
     // Window controls
@@ -13,6 +17,7 @@ export interface ControlBarProps {
     viewMode: ViewMode;
     onToggleViewMode: () => void;
     onToggleSkillsMode: () => void;
+    onToggleGraphMode: () => void;
 
     // Sorting controls
     sortColumn: SortColumn;
@@ -53,6 +58,13 @@ export interface ControlBarProps {
     onToggleColumn?: (key: string) => void;
     skillsScope?: "solo" | "nearby";
     onToggleSkillsScope?: () => void;
+    effectiveDamage?: boolean;
+    onToggleEffectiveDamage?: () => void;
+
+    // Dummy parse controls
+    dummyParse?: DummyParseStatus | null;
+    onArmDummyParse?: (durationMs: number) => void;
+    onCancelDummyParse?: () => void;
 }
 
 function formatElapsed(ms: number): string {
@@ -68,6 +80,7 @@ function formatElapsed(ms: number): string {
 export function ControlBar(props: ControlBarProps): React.JSX.Element {
     const isNearby = props.viewMode === "nearby";
     const isSkills = props.viewMode === "skills";
+    const isGraph = props.viewMode === "graph";
 
     // Opacity slider state and positioning
     const [showOpacity, setShowOpacity] = React.useState(false);
@@ -77,6 +90,11 @@ export function ControlBar(props: ControlBarProps): React.JSX.Element {
         left: number;
     }>({ top: 0, left: 0 });
     const opacityBtnRef = React.useRef<HTMLButtonElement | null>(null);
+    const [parseMinutes, setParseMinutes] = React.useState<number>(
+        DUMMY_PARSE_MINUTES[0],
+    );
+    const parseState = props.dummyParse?.state ?? "off";
+    const parseActive = parseState === "armed" || parseState === "running";
 
     // Tick each second so timer refreshes
     const [, setTick] = React.useState(0);
@@ -257,6 +275,65 @@ export function ControlBar(props: ControlBarProps): React.JSX.Element {
                 {props.t("ui.controls.skills")}
             </button>
 
+            {/* Graph View Toggle */}
+            <button
+                id="graph-btn"
+                className={`control-button advanced-lite-btn ${isGraph ? "active" : ""}`}
+                onClick={props.onToggleGraphMode}
+                title={props.t("ui.buttons.toggleGraphView")}
+            >
+                <i className="fa-solid fa-chart-area"></i>
+            </button>
+
+            {/* Dummy parse: arm with a length, cancel while armed/running */}
+            {props.onArmDummyParse && (
+                <span className="flex gap-1" style={{ alignItems: "center" }}>
+                    <select
+                        id="dummy-parse-length"
+                        value={parseMinutes}
+                        disabled={parseActive}
+                        onChange={(e) =>
+                            setParseMinutes(parseInt(e.target.value, 10))
+                        }
+                        title={props.t("ui.dummyParse.length", "Parse length")}
+                        style={{
+                            border: "1px solid var(--border)",
+                            background: "var(--bg-dark)",
+                            color: "var(--text-primary)",
+                            fontSize: 11,
+                        }}
+                    >
+                        {DUMMY_PARSE_MINUTES.map((m) => (
+                            <option key={m} value={m}>
+                                {m}m
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        id="dummy-parse-btn"
+                        className={`control-button advanced-lite-btn ${parseActive ? "active" : ""}`}
+                        onClick={() =>
+                            parseActive
+                                ? props.onCancelDummyParse?.()
+                                : props.onArmDummyParse?.(parseMinutes * 60000)
+                        }
+                        title={
+                            parseActive
+                                ? props.t(
+                                      "ui.dummyParse.cancel",
+                                      "Cancel dummy parse",
+                                  )
+                                : props.t(
+                                      "ui.dummyParse.arm",
+                                      "Arm dummy parse (starts on the first hit on a training dummy)",
+                                  )
+                        }
+                    >
+                        <i className="fa-solid fa-bullseye"></i>
+                    </button>
+                </span>
+            )}
+
             {/* Encounter timer (starts on combat) */}
             <span
                 className="encounter-timer"
@@ -302,13 +379,28 @@ export function ControlBar(props: ControlBarProps): React.JSX.Element {
                         ? props.skillsScope === "nearby"
                             ? props.t("ui.controls.nearby")
                             : props.t("ui.controls.solo")
-                        : props.viewMode === "nearby"
+                        : props.viewMode === "nearby" || isGraph
                           ? props.t("ui.controls.nearby")
                           : props.t("ui.controls.solo")}
                 </button>
 
-                {/* If in skills view, hide sort controls */}
-                {!isSkills && (
+                {/* Effective damage toggle (HP removed instead of damage dealt) */}
+                {!isGraph && props.onToggleEffectiveDamage && (
+                    <button
+                        id="effective-damage-btn"
+                        className={`control-button advanced-lite-btn ${props.effectiveDamage ? "active" : ""}`}
+                        onClick={props.onToggleEffectiveDamage}
+                        title={props.t(
+                            "ui.buttons.toggleEffectiveDamage",
+                            "Show effective damage (HP removed)",
+                        )}
+                    >
+                        {props.t("ui.effective.toggle", "Eff.")}
+                    </button>
+                )}
+
+                {/* If in skills or graph view, hide sort controls */}
+                {!isSkills && !isGraph && (
                     <>
                         <button
                             id="sort-dmg-btn"
@@ -355,6 +447,21 @@ export function ControlBar(props: ControlBarProps): React.JSX.Element {
                         >
                             Heal
                         </button>
+                        <button
+                            id="sort-target-btn"
+                            className={`sort-button ${props.sortColumn === "targetDps" ? "active" : ""}`}
+                            onClick={() =>
+                                isNearby && props.onSortChange("targetDps")
+                            }
+                            title={props.t("ui.buttons.sortTargetDps")}
+                            disabled={!isNearby}
+                            style={{
+                                opacity: isNearby ? 1 : 0.4,
+                                cursor: isNearby ? "pointer" : "not-allowed",
+                            }}
+                        >
+                            {props.t("ui.controls.target", "Target")}
+                        </button>
                         {/* Show Top10 / All toggle - rendered but disabled outside nearby mode */}
                         <button
                             id="toggle-top10-all"
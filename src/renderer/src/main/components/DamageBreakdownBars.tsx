@@ -0,0 +1,153 @@
+import React from "react";
+import { formatStat } from "../../shared/utils/formatters";
+import {
+    damageSourceColors,
+    defaultClassColor,
+    getElementColor,
+} from "../../shared/constants/colors";
+import type { DamageBreakdownData } from "../hooks/useDataFetching";
+
+export interface DamageBreakdownBarsProps {
+    breakdown: DamageBreakdownData;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+// Translation keys for the element character at the end of server labels
+const ELEMENT_KEYS: Record<string, string> = {
+    物: "physical",
+    火: "fire",
+    冰: "ice",
+    雷: "thunder",
+    森: "forest",
+    风: "wind",
+    岩: "rock",
+    光: "light",
+    暗: "dark",
+};
+
+interface Segment {
+    key: string;
+    label: string;
+    color: string;
+    total: number;
+}
+
+function StackedBar({
+    title,
+    segments,
+}: {
+    title: string;
+    segments: Segment[];
+}): React.JSX.Element | null {
+    const total = segments.reduce((sum, s) => sum + s.total, 0);
+    if (total <= 0) return null;
+
+    return (
+        <div style={{ marginBottom: 6 }}>
+            <div
+                style={{
+                    fontSize: 10,
+                    color: "var(--text-secondary)",
+                    marginBottom: 3,
+                }}
+            >
+                {title}
+            </div>
+            <div
+                style={{
+                    display: "flex",
+                    height: 8,
+                    borderRadius: 4,
+                    overflow: "hidden",
+                    background: "rgba(255,255,255,0.05)",
+                }}
+            >
+                {segments.map((s) => (
+                    <div
+                        key={s.key}
+                        title={`${s.label}: ${formatStat(s.total)}`}
+                        style={{
+                            width: `${(s.total / total) * 100}%`,
+                            background: s.color,
+                        }}
+                    />
+                ))}
+            </div>
+            <div
+                style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    gap: "2px 10px",
+                    marginTop: 3,
+                    fontSize: 10,
+                }}
+            >
+                {segments.map((s) => (
+                    <span
+                        key={s.key}
+                        style={{
+                            display: "inline-flex",
+                            alignItems: "center",
+                            gap: 4,
+                        }}
+                    >
+                        <span
+                            style={{
+                                width: 7,
+                                height: 7,
+                                borderRadius: 2,
+                                background: s.color,
+                            }}
+                        />
+                        {s.label}
+                        <span style={{ color: "var(--text-secondary)" }}>
+                            {((s.total / total) * 100).toFixed(1)}%
+                        </span>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export function DamageBreakdownBars({
+    breakdown,
+    t,
+}: DamageBreakdownBarsProps): React.JSX.Element {
+    const sourceSegments: Segment[] = Object.entries(breakdown.sources)
+        .map(([source, stats]) => ({
+            key: source,
+            label: t(`ui.damageSources.${source}`, source),
+            color: damageSourceColors[source] || defaultClassColor,
+            total: stats.total,
+        }))
+        .sort((a, b) => b.total - a.total);
+
+    const elementSegments: Segment[] = Object.entries(breakdown.elements)
+        .map(([element, stats]) => {
+            const key = ELEMENT_KEYS[element.slice(-1)];
+            const icon = element.slice(0, -1);
+            return {
+                key: element,
+                label: key
+                    ? `${icon} ${t(`ui.elements.${key}`, key)}`
+                    : element,
+                color: getElementColor(element),
+                total: stats.total,
+            };
+        })
+        .sort((a, b) => b.total - a.total);
+
+    return (
+        <div className="damage-breakdown" style={{ padding: "4px 8px 8px" }}>
+            <StackedBar
+                title={t("ui.damageSources.title", "Damage by Source")}
+                segments={sourceSegments}
+            />
+            <StackedBar
+                title={t("ui.elements.title", "Damage by Element")}
+                segments={elementSegments}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,222 @@
+import React, { useMemo } from "react";
+import { formatStat } from "../../shared/utils/formatters";
+import { getClassColor } from "../../shared/constants/colors";
+import type { RateSeries } from "../hooks/useRollingRates";
+
+export type GraphMetric = "dps" | "hps";
+
+export const SMOOTHING_OPTIONS = [3, 5, 10, 30];
+
+export interface DpsGraphProps {
+    series: RateSeries[];
+    windowStart: number;
+    windowEnd: number;
+    metric: GraphMetric;
+    onMetricChange: (metric: GraphMetric) => void;
+    smoothingSeconds: number;
+    onSmoothingChange: (seconds: number) => void;
+    localUid: number | null;
+    getPlayerName: (uid: string, currentName: string) => string;
+    t: (key: string, fallback?: string | null) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const GRID_LINES = 4;
+
+export function DpsGraph({
+    series,
+    windowStart,
+    windowEnd,
+    metric,
+    onMetricChange,
+    smoothingSeconds,
+    onSmoothingChange,
+    localUid,
+    getPlayerName,
+    t,
+}: DpsGraphProps): React.JSX.Element {
+    // Only draw players that actually produced the selected metric
+    const visibleSeries = useMemo(
+        () =>
+            series
+                .filter((s) => s.points.some((p) => p[metric] > 0))
+                .sort((a, b) => {
+                    const lastA = a.points[a.points.length - 1][metric];
+                    const lastB = b.points[b.points.length - 1][metric];
+                    return lastB - lastA;
+                }),
+        [series, metric],
+    );
+
+    const maxValue = useMemo(() => {
+        let max = 0;
+        for (const s of visibleSeries) {
+            for (const p of s.points) {
+                if (p[metric] > max) max = p[metric];
+            }
+        }
+        return max > 0 ? max * 1.1 : 1;
+    }, [visibleSeries, metric]);
+
+    const span = Math.max(1, windowEnd - windowStart);
+    const toX = (time: number) => ((time - windowStart) / span) * WIDTH;
+    const toY = (value: number) => HEIGHT - (value / maxValue) * HEIGHT;
+
+    const buildPath = (s: RateSeries): string =>
+        s.points
+            .map(
+                (p, i) =>
+                    `${i === 0 ? "M" : "L"}${toX(p.time).toFixed(1)},${toY(p[metric]).toFixed(1)}`,
+            )
+            .join(" ");
+
+    return (
+        <div className="dps-graph" style={{ padding: "6px 8px" }}>
+            <div
+                style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    marginBottom: 6,
+                    fontSize: 11,
+                    color: "var(--text-secondary)",
+                }}
+            >
+                {(["dps", "hps"] as GraphMetric[]).map((m) => (
+                    <button
+                        key={m}
+                        className={`sort-button ${metric === m ? "active" : ""}`}
+                        onClick={() => onMetricChange(m)}
+                    >
+                        {t(`ui.stats.${m}`, m.toUpperCase())}
+                    </button>
+                ))}
+                <span style={{ marginLeft: "auto" }}>
+                    {t("ui.graph.smoothing", "Smoothing")}
+                </span>
+                {SMOOTHING_OPTIONS.map((seconds) => (
+                    <button
+                        key={seconds}
+                        className={`sort-button ${smoothingSeconds === seconds ? "active" : ""}`}
+                        onClick={() => onSmoothingChange(seconds)}
+                    >
+                        {seconds}s
+                    </button>
+                ))}
+            </div>
+
+            {visibleSeries.length === 0 ? (
+                <div
+                    style={{
+                        padding: 20,
+                        textAlign: "center",
+                        fontSize: 12,
+                        color: "var(--text-secondary)",
+                    }}
+                >
+                    {t("ui.graph.collecting", "Collecting samples...")}
+                </div>
+            ) : (
+                <>
+                    <div style={{ position: "relative" }}>
+                        <svg
+                            width="100%"
+                            height={HEIGHT}
+                            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                            preserveAspectRatio="none"
+                            style={{
+                                display: "block",
+                                background: "rgba(255,255,255,0.02)",
+                                borderRadius: 4,
+                            }}
+                        >
+                            {Array.from({ length: GRID_LINES }, (_, i) => {
+                                const y = (HEIGHT / GRID_LINES) * i;
+                                return (
+                                    <line
+                                        key={i}
+                                        x1={0}
+                                        x2={WIDTH}
+                                        y1={y}
+                                        y2={y}
+                                        stroke="var(--border)"
+                                        strokeWidth={1}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                );
+                            })}
+                            {visibleSeries.map((s) => (
+                                <path
+                                    key={s.uid}
+                                    d={buildPath(s)}
+                                    stroke={getClassColor(s.profession)}
+                                    strokeWidth={s.uid === localUid ? 2.5 : 1.5}
+                                    fill="none"
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            ))}
+                        </svg>
+                        <span
+                            style={{
+                                position: "absolute",
+                                top: 2,
+                                left: 4,
+                                fontSize: 10,
+                                color: "var(--text-secondary)",
+                            }}
+                        >
+                            {formatStat(maxValue)}
+                        </span>
+                    </div>
+
+                    <div
+                        style={{
+                            display: "flex",
+                            flexWrap: "wrap",
+                            gap: "4px 10px",
+                            marginTop: 6,
+                            fontSize: 11,
+                        }}
+                    >
+                        {visibleSeries.map((s) => {
+                            const last = s.points[s.points.length - 1];
+                            return (
+                                <span
+                                    key={s.uid}
+                                    style={{
+                                        display: "inline-flex",
+                                        alignItems: "center",
+                                        gap: 4,
+                                        fontWeight:
+                                            s.uid === localUid ? 600 : 400,
+                                    }}
+                                >
+                                    <span
+                                        style={{
+                                            width: 8,
+                                            height: 8,
+                                            borderRadius: "50%",
+                                            background: getClassColor(
+                                                s.profession,
+                                            ),
+                                        }}
+                                    />
+                                    {getPlayerName(String(s.uid), s.name) ||
+                                        s.uid}
+                                    <span
+                                        style={{
+                                            color: "var(--text-secondary)",
+                                        }}
+                                    >
+                                        {formatStat(last[metric])}
+                                    </span>
+                                </span>
+                            );
+                        })}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,4 +1,10 @@
 import React, { useEffect, useState } from "react";
+import type {
+    DummyParseStatus,
+    EncounterOutcome,
+} from "../hooks/useDataFetching";
+
+export type EncounterBadge = EncounterOutcome | "in-combat";
 
 export interface HeaderProps {
     title: string;
@@ -6,6 +12,9 @@ export interface HeaderProps {
     onZoomOut?: () => void;
     onClose?: () => void;
     startTime?: number;
+    endTime?: number | null; // freezes the timer once the encounter ended
+    badge?: EncounterBadge | null;
+    dummyParse?: DummyParseStatus | null; // shows the parse countdown
     t: (key: string, fallback?: string | null) => string;
 }
 
@@ -25,6 +34,9 @@ export function Header({
     onZoomOut,
     onClose,
     startTime,
+    endTime,
+    badge,
+    dummyParse,
     t,
 }: HeaderProps): React.JSX.Element {
     const [, setTick] = useState(0);
@@ -33,7 +45,21 @@ export function Header({
         return () => window.clearInterval(id);
     }, []);
 
-    const elapsed = startTime ? Date.now() - startTime : 0;
+    const elapsed = startTime ? (endTime ?? Date.now()) - startTime : 0;
+    // Armed parses show their full length until the first dummy hit
+    const parseRemaining =
+        dummyParse?.state === "running" && dummyParse.endAt
+            ? Math.max(0, dummyParse.endAt - Date.now())
+            : dummyParse?.state === "armed"
+              ? dummyParse.durationMs
+              : null;
+
+    const badgeLabels: Record<EncounterBadge, string> = {
+        "in-combat": t("ui.encounter.inCombat", "In combat"),
+        killed: t("ui.encounter.killed", "Kill"),
+        wiped: t("ui.encounter.wiped", "Wipe"),
+        unknown: t("ui.encounter.ended", "Ended"),
+    };
 
     return (
         <div className="controls">
@@ -45,7 +71,42 @@ export function Header({
             </div>
             <div className="title" style={{ marginRight: "auto" }}>
                 {title}
+                {badge && (
+                    <span
+                        className={`encounter-badge encounter-badge-${badge}`}
+                        style={{ marginLeft: 6 }}
+                    >
+                        {badgeLabels[badge]}
+                    </span>
+                )}
             </div>
+            {parseRemaining !== null && (
+                <div
+                    className="dummy-parse-countdown"
+                    title={
+                        dummyParse?.state === "armed"
+                            ? t(
+                                  "ui.dummyParse.armed",
+                                  "Armed: starts on the first hit on a training dummy",
+                              )
+                            : t("ui.dummyParse.remaining", "Parse time left")
+                    }
+                    style={{
+                        fontSize: 11,
+                        color:
+                            dummyParse?.state === "armed"
+                                ? "var(--text-secondary)"
+                                : "#ffbd59",
+                        marginRight: 8,
+                    }}
+                >
+                    <i
+                        className="fa-solid fa-bullseye"
+                        style={{ marginRight: 4 }}
+                    ></i>
+                    {formatElapsed(parseRemaining)}
+                </div>
+            )}
             <div
                 className="encounter-timer"
                 title={t("ui.labels.encounterTimer", "Encounter time")}
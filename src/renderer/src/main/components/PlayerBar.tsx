@@ -14,6 +14,7 @@ export interface PlayerBarProps {
     translateProfession: (profession: string) => string;
     t: (key: string, fallback?: string | null) => string;
     visibleColumns?: Record<string, boolean>;
+    effectiveDamage?: boolean; // show HP actually removed instead of damage dealt
 }
 
 function PlayerBarComponent({
@@ -25,6 +26,7 @@ function PlayerBarComponent({
     translateProfession,
     t,
     visibleColumns,
+    effectiveDamage = false,
 }: PlayerBarProps): React.JSX.Element {
     // Parse profession
     const professionParts = (player.profession || "-").split("-");
@@ -57,7 +59,15 @@ function PlayerBarComponent({
             : 0;
     const peak =
         player.realtime_dps_max !== undefined ? player.realtime_dps_max : 0;
-    const dps = Number(player.total_dps) || 0;
+    const dps =
+        Number(effectiveDamage ? player.effective_dps : player.total_dps) || 0;
+    const totalDamage =
+        Number(
+            effectiveDamage
+                ? player.total_damage.hpLessen
+                : player.total_damage.total,
+        ) || 0;
+    const targetDps = Number(player.primary_target_dps) || 0;
     const totalHealing = player.total_healing
         ? Number(player.total_healing.total) || 0
         : 0;
@@ -193,7 +203,9 @@ function PlayerBarComponent({
                     {visibleColumns?.dps !== false && (
                         <div className="stat">
                             <span className="stat-label">
-                                {t("ui.stats.dps")}
+                                {effectiveDamage
+                                    ? t("ui.effective.dps", "Eff. DPS")
+                                    : t("ui.stats.dps")}
                             </span>
                             <span
                                 className="stat-value"
@@ -207,6 +219,21 @@ function PlayerBarComponent({
                             </span>
                         </div>
                     )}
+                    {visibleColumns?.targetDps !== false && (
+                        <div className="stat">
+                            <span className="stat-label">
+                                {t("ui.stats.targetDps", "Target DPS")}
+                            </span>
+                            <span
+                                className="stat-value"
+                                data-tooltip={formatStat(
+                                    Number(player.primary_target_damage) || 0,
+                                )}
+                            >
+                                {formatStat(targetDps)}
+                            </span>
+                        </div>
+                    )}
                     {visibleColumns?.hps !== false && (
                         <div className="stat">
                             <span className="stat-label">
@@ -229,24 +256,19 @@ function PlayerBarComponent({
                     {visibleColumns?.totalDmg !== false && (
                         <div className="stat">
                             <span className="stat-label">
-                                {t("ui.stats.totalDmg")}
+                                {effectiveDamage
+                                    ? t("ui.effective.total", "Eff. Dmg")
+                                    : t("ui.stats.totalDmg")}
                             </span>
                             <span
                                 className="stat-value"
                                 data-tooltip={
-                                    player.total_damage &&
-                                    Number.isFinite(player.total_damage.total)
-                                        ? Number(
-                                              player.total_damage.total,
-                                          ).toLocaleString()
-                                        : ""
+                                    effectiveDamage
+                                        ? `${t("ui.stats.overkill", "Overkill")}: ${formatStat(Number(player.overkill) || 0)}`
+                                        : totalDamage.toLocaleString()
                                 }
                             >
-                                {formatStat(
-                                    (player.total_damage &&
-                                        player.total_damage.total) ||
-                                        0,
-                                )}
+                                {formatStat(totalDamage)}
                             </span>
                         </div>
                     )}
@@ -404,6 +426,10 @@ export const PlayerBar = memo(PlayerBarComponent, (prevProps, nextProps) => {
             nextProps.player.total_damage.total &&
         prevProps.player.hp === nextProps.player.hp &&
         prevProps.player.total_dps === nextProps.player.total_dps &&
+        prevProps.player.effective_dps === nextProps.player.effective_dps &&
+        prevProps.effectiveDamage === nextProps.effectiveDamage &&
+        prevProps.player.primary_target_dps ===
+            nextProps.player.primary_target_dps &&
         prevProps.player.damagePercent === nextProps.player.damagePercent &&
         prevProps.position === nextProps.position &&
         prevProps.isLocalPlayer === nextProps.isLocalPlayer &&
@@ -10,6 +10,7 @@ export interface PlayerListProps {
     translateProfession: (profession: string) => string;
     t: (key: string, fallback?: string | null) => string;
     visibleColumns?: Record<string, boolean>;
+    effectiveDamage?: boolean;
 }
 
 export function PlayerList({
@@ -20,6 +21,7 @@ export function PlayerList({
     translateProfession,
     t,
     visibleColumns,
+    effectiveDamage,
 }: PlayerListProps): React.JSX.Element {
     return (
         <div id="player-bars-container">
@@ -40,6 +42,7 @@ export function PlayerList({
                             translateProfession={translateProfession}
                             t={t}
                             visibleColumns={visibleColumns}
+                            effectiveDamage={effectiveDamage}
                         />
                     );
                 })}
@@ -7,6 +7,7 @@ export interface SkillCardProps {
     skill: SkillData;
     uid: string;
     startTime: number;
+    effectiveDamage?: boolean; // show HP actually removed instead of damage dealt
     t: (key: string, fallback?: string | null) => string;
     translateSkill: (
         skillId: number | string,
@@ -19,16 +20,22 @@ function SkillCardComponent({
     skill,
     uid,
     startTime,
+    effectiveDamage = false,
     t,
     translateSkill,
 }: SkillCardProps): React.JSX.Element {
     const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
 
+    // Effective mode swaps damage dealt for HP removed on damage skills
+    const showEffective = effectiveDamage && skill.type === "伤害";
+    const shownDamage = showEffective
+        ? (skill.effectiveDamage ?? skill.totalDamage)
+        : skill.totalDamage;
+
     // Calculate skill DPS
     const duration = (Date.now() - startTime) / 1000;
-    const skillDPS = duration > 0 ? skill.totalDamage / duration : 0;
-    const avgDamage =
-        skill.totalCount > 0 ? skill.totalDamage / skill.totalCount : 0;
+    const skillDPS = duration > 0 ? shownDamage / duration : 0;
+    const avgDamage = skill.totalCount > 0 ? shownDamage / skill.totalCount : 0;
 
     // Translate skill name
     const translatedSkillName = translateSkill(skillId, skill.displayName);
@@ -45,6 +52,14 @@ function SkillCardComponent({
         (skill.countBreakdown?.crit_lucky || 0);
     const avgCritDmg = critCount > 0 ? critDmg / critCount : 0;
 
+    // Overheal is estimated server-side from the target's missing HP
+    const isHealing = skill.type !== "伤害";
+    const overheal = skill.overheal || 0;
+    const overhealRate =
+        skill.totalDamage > 0 ? (overheal / skill.totalDamage) * 100 : 0;
+    const summonDamage = skill.summonDamage || 0;
+    const missRate = (skill.missRate || 0) * 100;
+
     return (
         <div
             className={`skill-card ${isCollapsed ? "collapsed" : ""}`}
@@ -102,15 +117,19 @@ function SkillCardComponent({
             >
                 <div className="skill-stat">
                     <span className="skill-stat-label">
-                        {t("ui.skills.total")}
+                        {showEffective
+                            ? t("ui.effective.total", "Eff. Dmg")
+                            : t("ui.skills.total")}
                     </span>
                     <span className="skill-stat-value">
-                        {formatStat(skill.totalDamage)}
+                        {formatStat(shownDamage)}
                     </span>
                 </div>
                 <div className="skill-stat">
                     <span className="skill-stat-label">
-                        {t("ui.stats.dps")}
+                        {showEffective
+                            ? t("ui.effective.dps", "Eff. DPS")
+                            : t("ui.stats.dps")}
                     </span>
                     <span className="skill-stat-value">
                         {formatStat(skillDPS)}
@@ -162,6 +181,92 @@ function SkillCardComponent({
                         {Math.round(skill.luckyRate * 100)}%
                     </span>
                 </div>
+                {!!skill.casts && (
+                    <>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.casts.casts", "Casts")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {skill.casts}
+                            </span>
+                        </div>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.casts.hitsPerCast", "Hits/Cast")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {(skill.hitsPerCast || 0).toFixed(1)}
+                            </span>
+                        </div>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.casts.avgPerCast", "Avg/Cast")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {formatStat(skill.avgPerCast || 0)}
+                            </span>
+                        </div>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.casts.perMinute", "Casts/min")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {(skill.castsPerMinute || 0).toFixed(1)}
+                            </span>
+                        </div>
+                    </>
+                )}
+                {missRate > 0 && (
+                    <div className="skill-stat">
+                        <span className="skill-stat-label">
+                            {t("ui.stats.missPercent", "Miss %")}
+                        </span>
+                        <span className="skill-stat-value">
+                            {missRate.toFixed(1)}%
+                        </span>
+                    </div>
+                )}
+                {showEffective && (
+                    <div className="skill-stat">
+                        <span className="skill-stat-label">
+                            {t("ui.stats.overkill", "Overkill")}
+                        </span>
+                        <span className="skill-stat-value">
+                            {formatStat(skill.overkill || 0)}
+                        </span>
+                    </div>
+                )}
+                {summonDamage > 0 && (
+                    <div className="skill-stat">
+                        <span className="skill-stat-label">
+                            {t("ui.summons.fromSummons", "From Summons")}
+                        </span>
+                        <span className="skill-stat-value">
+                            {formatStat(summonDamage)}
+                        </span>
+                    </div>
+                )}
+                {isHealing && (
+                    <>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.healing.effective", "Effective")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {formatStat(skill.totalDamage - overheal)}
+                            </span>
+                        </div>
+                        <div className="skill-stat">
+                            <span className="skill-stat-label">
+                                {t("ui.healing.overheal", "Overheal")}
+                            </span>
+                            <span className="skill-stat-value">
+                                {Math.round(overhealRate)}%
+                            </span>
+                        </div>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -173,6 +278,11 @@ export const SkillCard = memo(SkillCardComponent, (prevProps, nextProps) => {
         prevProps.skillId === nextProps.skillId &&
         prevProps.skill.totalDamage === nextProps.skill.totalDamage &&
         prevProps.skill.totalCount === nextProps.skill.totalCount &&
+        prevProps.skill.casts === nextProps.skill.casts &&
+        prevProps.skill.overheal === nextProps.skill.overheal &&
+        prevProps.skill.missRate === nextProps.skill.missRate &&
+        prevProps.skill.effectiveDamage === nextProps.skill.effectiveDamage &&
+        prevProps.effectiveDamage === nextProps.effectiveDamage &&
         prevProps.startTime === nextProps.startTime
     );
 });
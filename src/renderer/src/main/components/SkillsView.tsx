@@ -1,7 +1,15 @@
 import React, { useState, memo, useMemo } from "react";
 import { SkillCard } from "./SkillCard";
+import { SummonCard } from "./SummonCard";
+import { TargetBreakdown } from "./TargetBreakdown";
+import { DamageBreakdownBars } from "./DamageBreakdownBars";
 import { getProfessionInfo } from "../../shared/utils/professions";
-import type { SkillsDataByUser } from "../hooks/useDataFetching";
+import type {
+    SkillsDataByUser,
+    SummonData,
+    TargetDamageData,
+    DamageBreakdownData,
+} from "../hooks/useDataFetching";
 
 export interface SkillsViewProps {
     skillsData: SkillsDataByUser;
@@ -13,6 +21,7 @@ export interface SkillsViewProps {
         fallback?: string | null,
     ) => string;
     scope?: "solo" | "nearby";
+    effectiveDamage?: boolean;
     t: (key: string, fallback?: string | null) => string;
 }
 
@@ -23,6 +32,9 @@ interface PlayerSkillSectionProps {
         name: string;
         profession: string;
         skills: any;
+        summons?: SummonData | null;
+        targets?: TargetDamageData;
+        damageBreakdown?: DamageBreakdownData;
     };
     startTime: number;
     getPlayerName: (uid: string, currentName: string) => string;
@@ -31,6 +43,7 @@ interface PlayerSkillSectionProps {
         skillId: number | string,
         fallback?: string | null,
     ) => string;
+    effectiveDamage: boolean;
     t: (key: string, fallback?: string | null) => string;
 }
 
@@ -41,6 +54,7 @@ function PlayerSkillSection({
     getPlayerName,
     translateProfession,
     translateSkill,
+    effectiveDamage,
     t,
 }: PlayerSkillSectionProps): React.JSX.Element {
     const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
@@ -79,6 +93,12 @@ function PlayerSkillSection({
 
     if (activeSkills.length === 0) return <></>;
 
+    const ownerTotal = activeSkills.reduce(
+        (sum: number, [, skill]: [string, any]) =>
+            skill.type === "伤害" ? sum + (skill.totalDamage || 0) : sum,
+        0,
+    );
+
     return (
         <div
             className={`player-skill-section ${isCollapsed ? "collapsed" : ""}`}
@@ -121,10 +141,27 @@ function PlayerSkillSection({
                 <span className="player-profession">{professionDisplay}</span>
             </div>
 
+            {!isCollapsed && userData.damageBreakdown && (
+                <DamageBreakdownBars
+                    breakdown={userData.damageBreakdown}
+                    t={t}
+                />
+            )}
+
             <div
                 className="skills-grid"
                 style={{ display: isCollapsed ? "none" : "grid" }}
             >
+                {userData.summons && userData.summons.total > 0 && (
+                    <SummonCard
+                        summons={userData.summons}
+                        ownerTotal={ownerTotal}
+                        uid={uid}
+                        startTime={startTime}
+                        t={t}
+                        translateSkill={translateSkill}
+                    />
+                )}
                 {activeSkills.map(([skillId, skill]: [string, any]) => (
                     <SkillCard
                         key={`${uid}-${skillId}`}
@@ -132,11 +169,21 @@ function PlayerSkillSection({
                         skill={skill}
                         uid={uid}
                         startTime={startTime}
+                        effectiveDamage={effectiveDamage}
                         t={t}
                         translateSkill={translateSkill}
                     />
                 ))}
             </div>
+
+            {!isCollapsed && userData.targets && (
+                <TargetBreakdown
+                    targets={userData.targets}
+                    startTime={startTime}
+                    t={t}
+                    translateSkill={translateSkill}
+                />
+            )}
         </div>
     );
 }
@@ -148,6 +195,7 @@ function SkillsViewComponent({
     translateProfession,
     translateSkill,
     scope = "nearby",
+    effectiveDamage = false,
     t,
 }: SkillsViewProps): React.JSX.Element {
     if (!skillsData || Object.keys(skillsData).length === 0) {
@@ -238,6 +286,7 @@ function SkillsViewComponent({
                             getPlayerName={getPlayerName}
                             translateProfession={translateProfession}
                             translateSkill={translateSkill}
+                            effectiveDamage={effectiveDamage}
                             t={t}
                         />
                     );
@@ -255,6 +304,7 @@ export const SkillsView = memo(SkillsViewComponent, (prevProps, nextProps) => {
 
     if (prevKeys.length !== nextKeys.length) return false;
     if (prevProps.startTime !== nextProps.startTime) return false;
+    if (prevProps.effectiveDamage !== nextProps.effectiveDamage) return false;
 
     // Check if any skill data changed
     for (const key of prevKeys) {
@@ -265,6 +315,16 @@ export const SkillsView = memo(SkillsViewComponent, (prevProps, nextProps) => {
 
         if (Object.keys(prevSkills).length !== Object.keys(nextSkills).length)
             return false;
+        if (
+            !!prevProps.skillsData[key].summons !==
+            !!nextProps.skillsData[key].summons
+        )
+            return false;
+        if (
+            Object.keys(prevProps.skillsData[key].targets || {}).length !==
+            Object.keys(nextProps.skillsData[key].targets || {}).length
+        )
+            return false;
     }
 
     return true;
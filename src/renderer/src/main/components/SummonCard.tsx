@@ -0,0 +1,106 @@
+import React from "react";
+import { formatStat } from "../../shared/utils/formatters";
+import type { SummonData } from "../hooks/useDataFetching";
+
+export interface SummonCardProps {
+    summons: SummonData;
+    ownerTotal: number; // owner's damage including the summons
+    uid: string;
+    startTime: number;
+    t: (key: string, fallback?: string | null) => string;
+    translateSkill: (
+        skillId: number | string,
+        fallback?: string | null,
+    ) => string;
+}
+
+export function SummonCard({
+    summons,
+    ownerTotal,
+    uid,
+    startTime,
+    t,
+    translateSkill,
+}: SummonCardProps): React.JSX.Element {
+    const duration = (Date.now() - startTime) / 1000;
+    const summonDPS = duration > 0 ? summons.total / duration : 0;
+    const share = ownerTotal > 0 ? (summons.total / ownerTotal) * 100 : 0;
+    const critRate =
+        summons.count > 0 ? (summons.critCount / summons.count) * 100 : 0;
+
+    // Top summon skill by damage
+    const topSkill = Object.entries(summons.skills).sort(
+        (a, b) => b[1].total - a[1].total,
+    )[0];
+
+    return (
+        <div className="skill-card summon-card" data-uid={uid}>
+            <div className="skill-header">
+                <span className="skill-name">
+                    <i
+                        className="fa-solid fa-paw"
+                        style={{ marginRight: 6 }}
+                    ></i>
+                    {t("ui.summons.title", "Summons")} ({summons.entityCount})
+                </span>
+                <span className="skill-type summon">
+                    {t("ui.summons.tag", "Summon")}
+                </span>
+            </div>
+
+            <div className="skill-stats">
+                <div className="skill-stat">
+                    <span className="skill-stat-label">
+                        {t("ui.skills.total")}
+                    </span>
+                    <span className="skill-stat-value">
+                        {formatStat(summons.total)}
+                    </span>
+                </div>
+                <div className="skill-stat">
+                    <span className="skill-stat-label">
+                        {t("ui.stats.dps")}
+                    </span>
+                    <span className="skill-stat-value">
+                        {formatStat(summonDPS)}
+                    </span>
+                </div>
+                <div className="skill-stat">
+                    <span className="skill-stat-label">
+                        {t("ui.skills.count")}
+                    </span>
+                    <span className="skill-stat-value">{summons.count}</span>
+                </div>
+                <div className="skill-stat">
+                    <span className="skill-stat-label">
+                        {t("ui.summons.share", "% of Output")}
+                    </span>
+                    <span className="skill-stat-value">
+                        {share.toFixed(1)}%
+                    </span>
+                </div>
+                <div className="skill-stat">
+                    <span className="skill-stat-label">
+                        {t("ui.stats.critPercent")}
+                    </span>
+                    <span className="skill-stat-value">
+                        {Math.round(critRate)}%
+                    </span>
+                </div>
+                {topSkill && (
+                    <div className="skill-stat">
+                        <span className="skill-stat-label">
+                            {t("ui.summons.topSkill", "Top Skill")}
+                        </span>
+                        <span className="skill-stat-value">
+                            {translateSkill(
+                                topSkill[0],
+                                topSkill[1].displayName,
+                            )}
+                        </span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from "react";
+import { formatDuration, formatStat } from "../../shared/utils/formatters";
+import type { TargetDamageData } from "../hooks/useDataFetching";
+
+export interface TargetBreakdownProps {
+    targets: TargetDamageData;
+    startTime: number;
+    t: (key: string, fallback?: string | null) => string;
+    translateSkill: (
+        skillId: number | string,
+        fallback?: string | null,
+    ) => string;
+}
+
+export function TargetBreakdown({
+    targets,
+    startTime,
+    t,
+    translateSkill,
+}: TargetBreakdownProps): React.JSX.Element | null {
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    // Bosses first, then by damage
+    const rows = useMemo(
+        () =>
+            Object.entries(targets)
+                .map(([id, target]) => ({ id, ...target }))
+                .sort(
+                    (a, b) =>
+                        Number(b.isBoss) - Number(a.isBoss) ||
+                        b.total - a.total,
+                ),
+        [targets],
+    );
+
+    if (rows.length === 0) return null;
+
+    const total = Math.max(
+        1,
+        rows.reduce((sum, row) => sum + row.total, 0),
+    );
+
+    return (
+        <div className="sb-table-wrap" style={{ marginTop: 8 }}>
+            <table className="sb-table">
+                <thead>
+                    <tr>
+                        <th style={{ width: "40%" }}>
+                            {t("ui.targets.target", "Target")}
+                        </th>
+                        <th>{t("ui.stats.damage", "Damage")}</th>
+                        <th>{t("ui.targets.share", "% Dealt")}</th>
+                        <th>{t("ui.skills.count", "Hit Count")}</th>
+                        <th>{t("ui.stats.misses", "Misses")}</th>
+                        <th>{t("ui.targets.firstHit", "First Hit")}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row) => {
+                        const isOpen = expanded === row.id;
+                        return (
+                            <React.Fragment key={row.id}>
+                                <tr
+                                    style={{ cursor: "pointer" }}
+                                    onClick={() =>
+                                        setExpanded(isOpen ? null : row.id)
+                                    }
+                                >
+                                    <td className="sb-skill-name">
+                                        <i
+                                            className={`fa-solid ${row.isBoss ? "fa-skull" : "fa-crosshairs"}`}
+                                            style={{
+                                                fontSize: 10,
+                                                marginRight: 6,
+                                                opacity: 0.7,
+                                            }}
+                                        ></i>
+                                        {row.name}
+                                    </td>
+                                    <td>{formatStat(row.total)}</td>
+                                    <td>
+                                        {((row.total / total) * 100).toFixed(1)}
+                                        %
+                                    </td>
+                                    <td>{row.count.toLocaleString()}</td>
+                                    <td>{(row.miss ?? 0).toLocaleString()}</td>
+                                    <td>
+                                        +
+                                        {formatDuration(
+                                            Math.max(
+                                                0,
+                                                row.firstHit - startTime,
+                                            ),
+                                        )}
+                                    </td>
+                                </tr>
+                                {isOpen &&
+                                    Object.entries(row.skills)
+                                        .sort((a, b) => b[1].total - a[1].total)
+                                        .map(([skillId, skill]) => (
+                                            <tr key={`${row.id}-${skillId}`}>
+                                                <td
+                                                    style={{
+                                                        paddingLeft: 28,
+                                                        color: "var(--text-secondary)",
+                                                    }}
+                                                >
+                                                    {translateSkill(
+                                                        skillId,
+                                                        String(
+                                                            skill.displayName,
+                                                        ),
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    {formatStat(skill.total)}
+                                                </td>
+                                                <td>
+                                                    {(
+                                                        (skill.total / total) *
+                                                        100
+                                                    ).toFixed(1)}
+                                                    %
+                                                </td>
+                                                <td>
+                                                    {skill.count.toLocaleString()}
+                                                </td>
+                                                <td>
+                                                    {(
+                                                        skill.miss ?? 0
+                                                    ).toLocaleString()}
+                                                </td>
+                                                <td></td>
+                                            </tr>
+                                        ))}
+                            </React.Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -3,17 +3,27 @@
  */
 
 export { ControlBar } from "./ControlBar";
+export { DamageBreakdownBars } from "./DamageBreakdownBars";
+export { DpsGraph } from "./DpsGraph";
 export { DragIndicator } from "./DragIndicator";
+export { Header } from "./Header";
 export { LoadingIndicator } from "./LoadingIndicator";
 export { PlayerBar } from "./PlayerBar";
 export { PlayerList } from "./PlayerList";
 export { SkillCard } from "./SkillCard";
 export { SkillsView } from "./SkillsView";
+export { SummonCard } from "./SummonCard";
+export { TargetBreakdown } from "./TargetBreakdown";
 
 export type { ControlBarProps } from "./ControlBar";
+export type { DamageBreakdownBarsProps } from "./DamageBreakdownBars";
+export type { DpsGraphProps, GraphMetric } from "./DpsGraph";
 export type { DragIndicatorProps } from "./DragIndicator";
+export type { HeaderProps, EncounterBadge } from "./Header";
 export type { LoadingIndicatorProps } from "./LoadingIndicator";
 export type { PlayerBarProps } from "./PlayerBar";
 export type { PlayerListProps } from "./PlayerList";
 export type { SkillCardProps } from "./SkillCard";
 export type { SkillsViewProps } from "./SkillsView";
+export type { SummonCardProps } from "./SummonCard";
+export type { TargetBreakdownProps } from "./TargetBreakdown";
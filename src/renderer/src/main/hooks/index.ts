@@ -7,6 +7,7 @@ export { useElectronIntegration } from "./useElectronIntegration";
 export { usePlayerRegistry } from "./usePlayerRegistry";
 export { useManualGroup } from "./useManualGroup";
 export { useTranslations } from "./useTranslations";
+export { useRollingRates } from "./useRollingRates";
 
 export type {
     UseDataFetchingOptions,
@@ -14,6 +15,13 @@ export type {
     PlayerUser,
     SkillData,
     SkillsDataByUser,
+    SummonData,
+    TargetDamageData,
+    DamageBreakdownData,
+    EncounterStatus,
+    EncounterInfo,
+    DummyParseStatus,
+    EncounterOutcome,
 } from "./useDataFetching";
 export type {
     UseElectronIntegrationOptions,
@@ -22,3 +30,8 @@ export type {
 export type { UsePlayerRegistryReturn } from "./usePlayerRegistry";
 export type { UseManualGroupReturn } from "./useManualGroup";
 export type { UseTranslationsReturn } from "./useTranslations";
+export type {
+    UseRollingRatesReturn,
+    RateSeries,
+    RatePoint,
+} from "./useRollingRates";
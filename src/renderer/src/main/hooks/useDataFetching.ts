@@ -25,6 +25,8 @@ export interface PlayerUser {
         lucky: number;
         crit_lucky: number;
         total: number;
+        miss?: number; // attempts that dealt nothing, not part of total
+        zero_value?: number;
     };
     total_healing: {
         normal: number;
@@ -34,8 +36,21 @@ export interface PlayerUser {
         hpLessen: number;
         total: number;
     };
+    total_overheal?: number;
+    healing_received?: {
+        total: number;
+        effective: number;
+        overheal: number;
+        count: number;
+    };
+    // Damage to the encounter's primary target (boss when one is engaged)
+    primary_target_damage?: number;
+    primary_target_dps?: number;
     taken_damage: number;
     total_dps: number;
+    // HP actually removed (HpLessenValue) and the damage past it
+    effective_dps?: number;
+    overkill?: number;
     total_hps: number;
     realtime_dps_max: number;
     hp: number;
@@ -68,9 +83,63 @@ export interface SkillData {
         lucky: number;
         crit_lucky: number;
         total: number;
+        miss?: number; // attempts that dealt nothing, not part of total
+        zero_value?: number;
+    };
+    overheal?: number; // healing skills only
+    summonDamage?: number; // part of totalDamage dealt by summons
+    effectiveDamage?: number; // HP actually removed, damage skills only
+    overkill?: number;
+    // Hits grouped into casts (button presses) by a short time window
+    casts?: number;
+    hitsPerCast?: number;
+    avgPerCast?: number;
+    castsPerMinute?: number;
+    missCount?: number;
+    zeroCount?: number;
+    missRate?: number;
+}
+
+export interface SummonData {
+    total: number;
+    count: number;
+    critCount: number;
+    luckyCount: number;
+    entityCount: number;
+    skills: {
+        [skillId: string]: {
+            displayName: string;
+            total: number;
+            count: number;
+        };
     };
 }
 
+export interface TargetDamageData {
+    [targetUid: string]: {
+        name: string;
+        isBoss: boolean;
+        total: number;
+        count: number;
+        miss?: number;
+        firstHit: number;
+        lastHit: number;
+        skills: {
+            [skillId: string]: {
+                displayName: string;
+                total: number;
+                count: number;
+                miss?: number;
+            };
+        };
+    };
+}
+
+export interface DamageBreakdownData {
+    sources: { [source: string]: { total: number; count: number } };
+    elements: { [element: string]: { total: number; count: number } };
+}
+
 export interface SkillsDataByUser {
     [uid: string]: {
         uid: number;
@@ -79,9 +148,46 @@ export interface SkillsDataByUser {
         skills: {
             [skillId: string]: SkillData;
         };
+        summons?: SummonData | null;
+        targets?: TargetDamageData;
+        damageBreakdown?: DamageBreakdownData;
     };
 }
 
+export type EncounterOutcome = "killed" | "wiped" | "unknown";
+
+export interface EncounterInfo {
+    id: string;
+    startTime: number;
+    endTime: number | null;
+    endReason: string | null;
+    outcome: EncounterOutcome | null;
+    primaryTarget: {
+        id: number;
+        name: string;
+        isBoss: boolean;
+        dead: boolean;
+        hp: number | null;
+        maxHp: number | null;
+    } | null;
+}
+
+// Fixed-length parse armed from the control bar
+export interface DummyParseStatus {
+    state: "off" | "armed" | "running" | "done";
+    durationMs: number;
+    startTime: number | null;
+    endAt: number | null;
+}
+
+// Server-side encounter engine state (see server/encounterManager.ts)
+export interface EncounterStatus {
+    state: "idle" | "in-combat" | "wiped" | "killed";
+    current: EncounterInfo | null;
+    last: EncounterInfo | null;
+    dummyParse?: DummyParseStatus;
+}
+
 export interface UseDataFetchingOptions {
     viewMode: ViewMode;
     sortColumn: SortColumn;
@@ -107,6 +213,9 @@ export interface UseDataFetchingReturn {
     activeBossName?: string | null;
     activeEnemyId?: number | null;
     activeEnemyName?: string | null;
+    encounter: EncounterStatus | null;
+    armDummyParse: (durationMs: number) => Promise<void>;
+    cancelDummyParse: () => Promise<void>;
 }
 
 // keep previous values if undefined in payload
@@ -141,7 +250,9 @@ export function useDataFetching(
     const [activeBossName, setActiveBossName] = useState<string | null>(null);
     const [activeEnemyId, setActiveEnemyId] = useState<number | null>(null);
     const [activeEnemyName, setActiveEnemyName] = useState<string | null>(null);
+    const [encounter, setEncounter] = useState<EncounterStatus | null>(null);
     const pausedBaselineMsRef = useRef<number>(0);
+    const dummyParseStateRef = useRef<DummyParseStatus["state"]>("off");
 
     const lastStartTimeRef = useRef<number>(0);
     const lastTotalDamageRef = useRef<number>(0);
@@ -194,6 +305,52 @@ export function useDataFetching(
         }
     }, [isPaused]);
 
+    // The server pauses itself when a dummy parse finishes; follow it
+    const parseState = encounter?.dummyParse?.state ?? "off";
+    useEffect(() => {
+        if (parseState === "done" && dummyParseStateRef.current === "running") {
+            setIsPaused(true);
+            setLastPausedAt(Date.now());
+        }
+        dummyParseStateRef.current = parseState;
+    }, [parseState]);
+
+    const updateDummyParse = useCallback(
+        async (method: "POST" | "DELETE", durationMs?: number) => {
+            try {
+                const resp = await fetch("/api/dummy-parse", {
+                    method,
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ durationMs }),
+                });
+                const json = await resp.json();
+                if (json?.code !== 0) throw new Error(json?.msg);
+
+                // Arming unfreezes a meter stopped by the previous parse
+                if (method === "POST") {
+                    setIsPaused(false);
+                    setLastPausedAt(null);
+                }
+                setEncounter((prev) =>
+                    prev ? { ...prev, dummyParse: json.data } : prev,
+                );
+            } catch (err) {
+                console.error("Failed to update dummy parse:", err);
+            }
+        },
+        [],
+    );
+
+    const armDummyParse = useCallback(
+        (durationMs: number) => updateDummyParse("POST", durationMs),
+        [updateDummyParse],
+    );
+
+    const cancelDummyParse = useCallback(
+        () => updateDummyParse("DELETE"),
+        [updateDummyParse],
+    );
+
     // Main data fetching function
     const fetchData = useCallback(async () => {
         try {
@@ -252,6 +409,12 @@ export function useDataFetching(
                             );
                             setLocalUid(currentLocalUid);
                         }
+                        setEncounter((prev) =>
+                            coalesce<EncounterStatus | null>(
+                                localUserData.encounter,
+                                prev,
+                            ),
+                        );
                     } catch {}
 
                     // Start timer on first detected combat in skills view
@@ -294,6 +457,9 @@ export function useDataFetching(
             setActiveEnemyName((prev) =>
                 coalesce<string | null>(userData.activeEnemyName, prev),
             );
+            setEncounter((prev) =>
+                coalesce<EncounterStatus | null>(userData.encounter, prev),
+            );
 
             // remember server session start (may change on zone/server reset)
             if (userData.startTime) {
@@ -445,6 +611,9 @@ export function useDataFetching(
         activeBossName,
         activeEnemyId,
         activeEnemyName,
+        encounter,
+        armDummyParse,
+        cancelDummyParse,
     };
 }
 
@@ -477,6 +646,10 @@ function sortUserArray(
                 aVal = Number(a.total_dps) || 0;
                 bVal = Number(b.total_dps) || 0;
                 break;
+            case "targetDps":
+                aVal = Number(a.primary_target_dps) || 0;
+                bVal = Number(b.primary_target_dps) || 0;
+                break;
             default:
                 aVal = a.total_damage?.total ? Number(a.total_damage.total) : 0;
                 bVal = b.total_damage?.total ? Number(b.total_damage.total) : 0;
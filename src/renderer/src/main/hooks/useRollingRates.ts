@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import type { PlayerUser } from "./useDataFetching";
+
+// How often cumulative totals are sampled and how much history is kept
+const SAMPLE_INTERVAL_MS = 500;
+const HISTORY_MS = 180000;
+
+interface TotalsSample {
+    time: number;
+    damage: number;
+    healing: number;
+}
+
+export interface RatePoint {
+    time: number;
+    dps: number;
+    hps: number;
+}
+
+export interface RateSeries {
+    uid: number;
+    name: string;
+    profession: string;
+    points: RatePoint[];
+}
+
+export interface UseRollingRatesReturn {
+    series: RateSeries[];
+    windowStart: number;
+    windowEnd: number;
+}
+
+export function useRollingRates(
+    players: PlayerUser[],
+    smoothingSeconds: number,
+): UseRollingRatesReturn {
+    const samplesRef = useRef<Map<number, TotalsSample[]>>(new Map());
+    const metaRef = useRef<Map<number, { name: string; profession: string }>>(
+        new Map(),
+    );
+    const lastSampleRef = useRef<number>(0);
+    const [version, setVersion] = useState(0);
+
+    // Sample cumulative totals; rolling rates are derived from the deltas so
+    // changing the smoothing window does not lose any history.
+    useEffect(() => {
+        const now = Date.now();
+        if (now - lastSampleRef.current < SAMPLE_INTERVAL_MS) return;
+        lastSampleRef.current = now;
+
+        const samples = samplesRef.current;
+        for (const player of players) {
+            const damage = Number(player.total_damage?.total) || 0;
+            const healing = Number(player.total_healing?.total) || 0;
+            let history = samples.get(player.uid);
+            const last = history?.[history.length - 1];
+            // Totals going backwards means the server reset the encounter
+            if (!history || (last && damage < last.damage)) {
+                history = [];
+                samples.set(player.uid, history);
+            }
+            history.push({ time: now, damage, healing });
+            metaRef.current.set(player.uid, {
+                name: player.name,
+                profession: player.profession,
+            });
+        }
+
+        const cutoff = now - HISTORY_MS;
+        for (const [uid, history] of samples) {
+            while (history.length > 0 && history[0].time < cutoff) {
+                history.shift();
+            }
+            if (history.length === 0) {
+                samples.delete(uid);
+                metaRef.current.delete(uid);
+            }
+        }
+        setVersion((v) => v + 1);
+    }, [players]);
+
+    return useMemo(() => {
+        const windowMs = Math.max(1, smoothingSeconds) * 1000;
+        const series: RateSeries[] = [];
+        let windowStart = Infinity;
+        let windowEnd = 0;
+
+        for (const [uid, history] of samplesRef.current) {
+            const points: RatePoint[] = [];
+            let base = 0;
+            for (let i = 0; i < history.length; i++) {
+                const current = history[i];
+                // Move the base to the latest sample at least `windowMs` old
+                while (
+                    base + 1 < i &&
+                    current.time - history[base + 1].time >= windowMs
+                ) {
+                    base++;
+                }
+                const origin = history[base];
+                const elapsed = (current.time - origin.time) / 1000;
+                points.push({
+                    time: current.time,
+                    dps:
+                        elapsed > 0
+                            ? (current.damage - origin.damage) / elapsed
+                            : 0,
+                    hps:
+                        elapsed > 0
+                            ? (current.healing - origin.healing) / elapsed
+                            : 0,
+                });
+            }
+            if (points.length === 0) continue;
+            windowStart = Math.min(windowStart, points[0].time);
+            windowEnd = Math.max(windowEnd, points[points.length - 1].time);
+            const meta = metaRef.current.get(uid);
+            series.push({
+                uid,
+                name: meta?.name ?? String(uid),
+                profession: meta?.profession ?? "",
+                points,
+            });
+        }
+
+        return {
+            series,
+            windowStart: Number.isFinite(windowStart) ? windowStart : 0,
+            windowEnd,
+        };
+    }, [version, smoothingSeconds]);
+}
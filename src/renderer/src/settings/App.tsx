@@ -23,6 +23,7 @@ export function SettingsApp(): React.JSX.Element {
         luckyPercent: true,
         peakDps: true,
         totalHeal: true,
+        targetDps: false,
     };
 
     const [visibleColumns, setVisibleColumns] =
@@ -4,6 +4,7 @@
  * This module defines color schemes for various UI elements including:
  * - Position-based background colors (damage bars)
  * - Role-based colors (DPS, Tank, Healer)
+ * - Class colors (graph lines)
  * - Theme colors (matching CSS variables)
  */
 
@@ -48,6 +49,71 @@ export const roleColors = {
     healer: "#44ff44",
 } as const;
 
+/**
+ * Class colors for per-player lines in the graph view
+ * Keyed by the main class name as reported by the server
+ */
+export const classColors: Record<string, string> = {
+    雷影剑士: "#a86bff", // Stormblade
+    冰魔导师: "#4fc3f7", // Frost Mage
+    "涤罪恶火·战斧": "#e53935", // Fire Axe
+    青岚骑士: "#26a69a", // Wind Knight
+    森语者: "#8bc34a", // Verdant Oracle
+    "雷霆一闪·手炮": "#ffca28", // Gunner
+    巨刃守护者: "#a1887f", // Heavy Guardian
+    "暗灵祈舞·仪刀/仪仗": "#ec407a", // Spirit Dancer
+    神射手: "#cddc39", // Marksman
+    神盾骑士: "#5c6bc0", // Shield Knight
+    灵魂乐手: "#ff9800", // Soul Musician
+};
+
+export const defaultClassColor = "#b4bcc9";
+
+/**
+ * Get line color for a player's class
+ * @param profession - Server profession string ("main-sub" or "main")
+ * @returns Hex color string
+ */
+export function getClassColor(profession: string): string {
+    const mainClass = (profession || "").split("-")[0];
+    return classColors[mainClass] || defaultClassColor;
+}
+
+/**
+ * Element colors for the damage breakdown bars
+ * Keyed by the element character at the end of the server label (e.g. "🔥火")
+ */
+export const elementColors: Record<string, string> = {
+    物: "#b0bec5", // Physical
+    火: "#ff7043", // Fire
+    冰: "#4fc3f7", // Ice
+    雷: "#ab47bc", // Thunder
+    森: "#8bc34a", // Forest
+    风: "#26a69a", // Wind
+    岩: "#a1887f", // Rock
+    光: "#ffee58", // Light
+    暗: "#7e57c2", // Dark
+};
+
+// Damage source type colors, keyed by the server's source name
+export const damageSourceColors: Record<string, string> = {
+    Skill: "#4a9eff",
+    Bullet: "#ffa726",
+    Buff: "#ab47bc",
+    Fall: "#8d6e63",
+    FBullet: "#ffca28",
+    Other: "#78909c",
+};
+
+/**
+ * Get bar color for a server element label
+ * @param element - Element label as sent by the server (e.g. "🔥火")
+ * @returns Hex color string
+ */
+export function getElementColor(element: string): string {
+    return elementColors[(element || "").slice(-1)] || defaultClassColor;
+}
+
 // Theme colors (from CSS variables)
 export const themeColors = {
     bgDark: "rgba(15, 20, 30, 0.42)",
@@ -6,5 +6,11 @@ export {
     positionBackgroundColors,
     getPositionBackgroundColor,
     roleColors,
+    classColors,
+    defaultClassColor,
+    getClassColor,
+    elementColors,
+    damageSourceColors,
+    getElementColor,
     themeColors,
 } from "./colors";
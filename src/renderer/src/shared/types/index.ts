@@ -71,6 +71,7 @@ export interface Settings {
     isPaused: boolean;
     enableFightLog?: boolean;
     enableHistorySave?: boolean;
+    enableSessionRecording?: boolean;
     autoClearOnTimeout?: boolean;
     autoClearOnServerChange?: boolean;
     onlyRecordEliteDummy?: boolean;
@@ -87,6 +88,49 @@ export interface Settings {
     lastResumedAt?: number | null;
 }
 
+// Capture pipeline telemetry from /api/debug/status (see server Sniffer.getCaptureHealth)
+export interface CaptureHealth {
+    running: boolean;
+    paused: boolean;
+    replaying: boolean;
+    server: string | null;
+    packets: number;
+    bytes: number;
+    packetsPerSecond: number;
+    bytesPerSecond: number;
+    lastPacketAt: number | null;
+    tcp: {
+        segments: number;
+        bytes: number;
+        frames: number;
+        retransmits: number;
+        outOfOrder: number;
+        gaps: number;
+        droppedBytes: number;
+        resyncs: number;
+        pendingSegments: number;
+        pendingBytes: number;
+        lastGapAt: number | null;
+    };
+    parser: {
+        decodeErrors: number;
+        zstdFailures: number;
+        unknownMethodIds: Record<string, number>;
+    };
+    lastCombatEventAt: number | null;
+    devices: {
+        index: number;
+        name: string;
+        description: string;
+        linkType: string;
+        packets: number;
+        lastPacketAt: number | null;
+        lastGameTrafficAt: number | null;
+    }[];
+    duplicates: number;
+    failovers: number;
+}
+
 // Manual group types
 export interface ManualGroupState {
     enabled: boolean;
@@ -102,12 +146,9 @@ export interface PlayerRegistry {
 }
 
 // UI state types
-export type ViewMode = "nearby" | "solo" | "skills";
+export type ViewMode = "nearby" | "solo" | "skills" | "graph";
 export type SortColumn =
-    | "totalDmg"
-    | "totalDmgTaken"
-    | "totalHeal"
-    | "realtimeDps";
+    "totalDmg" | "totalDmgTaken" | "totalHeal" | "realtimeDps" | "targetDps";
 export type SortDirection = "asc" | "desc";
 
 // Skill modal types
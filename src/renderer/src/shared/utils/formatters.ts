@@ -207,6 +207,18 @@ export function formatDuration(ms: number): string {
     }
 }
 
+/**
+ * Format an offset in milliseconds as a m:ss clock
+ * @param ms - Offset in milliseconds
+ * @returns Formatted offset (e.g., "1:05", "12:40")
+ */
+export function formatClock(ms: number): string {
+    const seconds = Number.isFinite(ms)
+        ? Math.max(0, Math.floor(ms / 1000))
+        : 0;
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
 /**
  * Format a Unix timestamp to localized date/time string
  * @param timestamp - Unix timestamp in milliseconds
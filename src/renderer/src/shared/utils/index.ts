@@ -13,6 +13,7 @@ export {
     debounce,
     throttle,
     formatDuration,
+    formatClock,
     formatDate,
 } from "./formatters";
 
@@ -12,7 +12,17 @@ import type {
     PlayerRegistry,
 } from "../types/index";
 import type { UserDataManager } from "./dataManager";
-import Sniffer from "./sniffer";
+import Sniffer, { REPLAYS_DIR, parseReplaySpeed } from "./sniffer";
+import { SESSIONS_DIR, loadSession } from "./sessionRecorder";
+import { DUMMY_IDS, selectPrimaryTarget } from "./encounterManager";
+import {
+    checkRotation,
+    deleteTemplate,
+    findTemplate,
+    loadTemplates,
+    saveTemplate,
+    validateTemplate,
+} from "./rotationChecker";
 
 // Use user data path in production, current directory in development
 const USER_DATA_DIR =
@@ -24,48 +34,30 @@ const PLAYER_REGISTRY_PATH = path.join(USER_DATA_DIR, "player_registry.json");
 
 const LanguageChangeGracePeriod = 5000; // 5 seconds
 
-// Boss IDs to auto-reset on combat start
-const BOSS_IDS = new Set<number>([
-    783, // Goblin
-    425, // Tina
-    185, // Tower
-    38, // Kanima
-    103588, // Dark Mist Fortress
-    1985, // Dragon Claw Valley
-    15179, // Frost Ogre
-    146, // Arachnocrab
-    15395, // Tempest Ogre
-    15323, // Muku Chief
-    15269, // Brigand Leader
-    15159, // Golden Juggernaut
-    15202, // Inferno Ogre
-    87, // Lizardman King
-    147, // Venobzzar Incubator
-]);
-
 interface ErrorWithCode extends Error {
     code?: string;
 }
 
-// helper to compute active enemy by highest total damage >0
+// Active enemy: the engaged boss, otherwise the most damaged enemy. Uses the
+// same selection as the encounter's primary target (and so Target DPS).
 function computeActiveEnemy(
     enemies: Record<string, any>,
+    isBossEnemy: (uid: number) => boolean,
 ): { id: number; name: string; type?: string | null; isBoss?: boolean } | null {
-    const all = Object.entries(enemies || {}) as Array<[string, any]>;
-    const entries = all.filter(([, e]) => Number(e?.stats?.total) > 0);
-    if (entries.length === 0) return null;
-    entries.sort(
-        (a, b) =>
-            (Number(b[1]?.stats?.total) || 0) -
-            (Number(a[1]?.stats?.total) || 0),
+    const totals = Object.entries(enemies || {}).map(
+        ([id, e]): [number, number] => [
+            parseInt(id, 10),
+            Number(e?.stats?.total) || 0,
+        ],
     );
-    const [id, e] = entries[0];
-    const eid = parseInt(id, 10);
+    const eid = selectPrimaryTarget(totals, isBossEnemy);
+    if (eid === null) return null;
+    const e = enemies[String(eid)];
     return {
         id: eid,
         name: e?.name || String(eid),
         type: e?.type ?? null,
-        isBoss: !!e?.isBoss,
+        isBoss: isBossEnemy(eid),
     };
 }
 
@@ -94,58 +86,121 @@ function initializeApi(
         });
     }
 
-    // These will be updated by the boss detector interval below
-    let inBossEncounter = false;
-    let activeBossId: number | null = null;
-    let activeBossName: string | null = null;
-    let lastBossSeenAt: number | null = null;
-    const BOSS_LOST_GRACE_MS = 5000;
-    let lastActiveEnemyId: number | null = null;
+    const isBossEnemy = (uid: number) =>
+        userDataManager.encounters.isBossEnemy(uid);
+
+    // The active boss is the encounter's primary target when it is a boss
+    const getActiveBoss = () => {
+        const target = userDataManager.encounters.getPrimaryTarget();
+        return target?.isBoss ? target : null;
+    };
 
     app.get("/api/data", (req: Request, res: Response) => {
         const userData = userDataManager.getAllUsersData();
         const enemies = userDataManager.getAllEnemiesData?.() || {};
-        const ae = computeActiveEnemy(enemies);
+        const ae = computeActiveEnemy(enemies, isBossEnemy);
         const data: ApiResponse = {
             code: 0,
             user: userData,
             timestamp: Date.now(),
             startTime: userDataManager.startTime,
         } as any;
-        (data as any).activeBossId = activeBossId;
-        (data as any).activeBossName = activeBossName;
+        const activeBoss = getActiveBoss();
+        (data as any).activeBossId = activeBoss?.id ?? null;
+        (data as any).activeBossName = activeBoss?.name ?? null;
         (data as any).activeEnemyId = ae?.id ?? null;
         (data as any).activeEnemyName = ae?.name ?? null;
         (data as any).activeEnemyType = ae?.type ?? null;
         (data as any).activeEnemyIsBoss = ae?.isBoss ?? false;
+        (data as any).encounter = userDataManager.encounters.getStatus();
         res.json(data);
     });
 
     app.get("/api/solo-user", (req: Request, res: Response) => {
         const soloData = userDataManager.getSoloUserData();
         const enemies = userDataManager.getAllEnemiesData?.() || {};
-        const ae = computeActiveEnemy(enemies);
+        const ae = computeActiveEnemy(enemies, isBossEnemy);
         const data: ApiResponse = {
             code: 0,
             user: soloData,
             timestamp: Date.now(),
             startTime: userDataManager.startTime,
         } as any;
-        (data as any).activeBossId = activeBossId;
-        (data as any).activeBossName = activeBossName;
+        const activeBoss = getActiveBoss();
+        (data as any).activeBossId = activeBoss?.id ?? null;
+        (data as any).activeBossName = activeBoss?.name ?? null;
         (data as any).activeEnemyId = ae?.id ?? null;
         (data as any).activeEnemyName = ae?.name ?? null;
         (data as any).activeEnemyType = ae?.type ?? null;
         (data as any).activeEnemyIsBoss = ae?.isBoss ?? false;
+        (data as any).encounter = userDataManager.encounters.getStatus();
         res.json(data);
     });
 
+    // Current encounter state and the encounters finished this session
+    app.get("/api/encounter/current", (req: Request, res: Response) => {
+        res.json({
+            code: 0,
+            data: userDataManager.encounters.getStatus(),
+        });
+    });
+
+    app.get("/api/encounters", (req: Request, res: Response) => {
+        res.json({
+            code: 0,
+            data: [...userDataManager.encounters.history].reverse(),
+        });
+    });
+
+    // Player totals and skills of a finished encounter from this session
+    app.get("/api/encounters/:id", (req: Request, res: Response) => {
+        const snapshot = userDataManager.encounters.getSnapshot(
+            req.params.id as string,
+        );
+        if (!snapshot) {
+            return res.status(404).json({
+                code: 1,
+                msg: "Encounter not found",
+            });
+        }
+        res.json({ code: 0, data: snapshot });
+    });
+
+    // Fixed-length parse that starts on the first hit against a training dummy
+    app.get("/api/dummy-parse", (req: Request, res: Response) => {
+        res.json({ code: 0, data: userDataManager.encounters.dummyParse });
+    });
+
+    app.post("/api/dummy-parse", (req: Request, res: Response) => {
+        const { durationMs } = req.body || {};
+        if (!userDataManager.encounters.armDummyParse(Number(durationMs))) {
+            return res.status(400).json({
+                code: 1,
+                msg: "Parse length must be 1, 3 or 5 minutes",
+            });
+        }
+        res.json({ code: 0, data: userDataManager.encounters.dummyParse });
+    });
+
+    app.delete("/api/dummy-parse", (req: Request, res: Response) => {
+        userDataManager.encounters.cancelDummyParse();
+        res.json({ code: 0, data: userDataManager.encounters.dummyParse });
+    });
+
+    // Death recaps of the current encounter
+    app.get("/api/deaths", (req: Request, res: Response) => {
+        res.json({
+            code: 0,
+            data: userDataManager.getDeathRecaps(),
+        });
+    });
+
     app.get("/api/debug/status", (req: Request, res: Response) => {
         const allUsers = userDataManager.getAllUsersData();
         const localUid = userDataManager.localPlayerUid;
         const userCount = Object.keys(allUsers).length;
         const enemies = userDataManager.getAllEnemiesData?.() || {};
-        const ae = computeActiveEnemy(enemies);
+        const ae = computeActiveEnemy(enemies, isBossEnemy);
 
         res.json({
             code: 0,
@@ -155,24 +210,27 @@ function initializeApi(
             hasLocalPlayer: localUid
                 ? allUsers.hasOwnProperty(localUid)
                 : false,
-            activeBossId,
-            activeBossName,
+            activeBossId: getActiveBoss()?.id ?? null,
+            activeBossName: getActiveBoss()?.name ?? null,
+            encounter: userDataManager.encounters.getStatus(),
             activeEnemyId: ae?.id ?? null,
             activeEnemyName: ae?.name ?? null,
             activeEnemyType: ae?.type ?? null,
             activeEnemyIsBoss: ae?.isBoss ?? false,
+            capture: sniffer.getCaptureHealth(),
         });
     });
 
     app.get("/api/enemies", (req: Request, res: Response) => {
         const enemiesData = userDataManager.getAllEnemiesData();
-        const ae = computeActiveEnemy(enemiesData);
+        const ae = computeActiveEnemy(enemiesData, isBossEnemy);
         const data: ApiResponse = {
             code: 0,
             enemy: enemiesData,
         } as any;
-        (data as any).activeBossId = activeBossId;
-        (data as any).activeBossName = activeBossName;
+        const activeBoss = getActiveBoss();
+        (data as any).activeBossId = activeBoss?.id ?? null;
+        (data as any).activeBossName = activeBoss?.name ?? null;
         (data as any).activeEnemyId = ae?.id ?? null;
         (data as any).activeEnemyName = ae?.name ?? null;
         (data as any).activeEnemyType = ae?.type ?? null;
@@ -330,10 +388,37 @@ function initializeApi(
         });
     });
 
+    // Player x enemy x skill damage matrix for the running encounter
+    app.get("/api/targets", (req: Request, res: Response) => {
+        res.json({
+            code: 0,
+            data: userDataManager.getDamageMatrix(),
+        });
+    });
+
+    app.get("/api/targets/:uid", (req: Request, res: Response) => {
+        const uid = parseInt(req.params.uid as string);
+        const user = userDataManager.users.get(uid);
+
+        if (!user) {
+            return res.status(404).json({
+                code: 1,
+                msg: "User not found",
+            });
+        }
+
+        res.json({
+            code: 0,
+            data: user.getTargetDamageSummary((id) =>
+                userDataManager.resolveTargetInfo(id),
+            ),
+        });
+    });
+
     app.get("/api/skills", (req: Request, res: Response) => {
         const userData = userDataManager.getAllUsersData();
         const enemies = userDataManager.getAllEnemiesData?.() || {};
-        const ae = computeActiveEnemy(enemies);
+        const ae = computeActiveEnemy(enemies, isBossEnemy);
         const skillsData: Record<string, any> = {};
 
         for (const [uid, user] of Object.entries(userData)) {
@@ -356,8 +441,9 @@ function initializeApi(
             timestamp: Date.now(),
             startTime: userDataManager.startTime,
         } as any;
-        (data as any).activeBossId = activeBossId;
-        (data as any).activeBossName = activeBossName;
+        const activeBoss = getActiveBoss();
+        (data as any).activeBossId = activeBoss?.id ?? null;
+        (data as any).activeBossName = activeBoss?.name ?? null;
         (data as any).activeEnemyId = ae?.id ?? null;
         (data as any).activeEnemyName = ae?.name ?? null;
         (data as any).activeEnemyType = ae?.type ?? null;
@@ -427,6 +513,132 @@ function initializeApi(
         }
     });
 
+    // Replay a pcap/pcapng capture file from the replays directory instead of
+    // capturing live traffic. Live capture can be resumed by selecting a
+    // device again.
+    app.post("/api/replay", async (req: Request, res: Response) => {
+        const { file } = req.body || {};
+        if (!file || typeof file !== "string") {
+            return res.status(400).json({
+                code: 1,
+                msg: "Missing capture file name",
+            });
+        }
+        const speed =
+            req.body.speed === undefined ? 1 : parseReplaySpeed(req.body.speed);
+        if (speed === null) {
+            return res.status(400).json({
+                code: 1,
+                msg: 'Replay speed must be above 0 or "max"',
+            });
+        }
+        const replayPath = path.join(REPLAYS_DIR, path.basename(file));
+
+        try {
+            await fsPromises.access(replayPath);
+        } catch (e) {
+            return res.status(404).json({
+                code: 1,
+                msg: "Capture file not found",
+            });
+        }
+
+        try {
+            await sniffer.stop();
+            userDataManager.clearAll();
+            sniffer
+                .replay(replayPath, sniffer.getPacketProcessor(), { speed })
+                .catch((err) => logger.error("Replay failed:", err));
+
+            res.json({ code: 0, data: sniffer.replayStatus });
+        } catch (err) {
+            logger.error("Failed to start replay:", err);
+            res.status(500).json({
+                code: 1,
+                msg: "Failed to start replay",
+            });
+        }
+    });
+
+    app.get("/api/replay", (req: Request, res: Response) => {
+        res.json({ code: 0, data: sniffer.replayStatus });
+    });
+
+    app.get("/api/sessions", async (req: Request, res: Response) => {
+        try {
+            const data = (
+                await fsPromises.readdir(SESSIONS_DIR, { withFileTypes: true })
+            )
+                .filter((e) => e.isFile() && e.name.endsWith(".bpsr"))
+                .map((e) => e.name);
+            res.json({
+                code: 0,
+                data: data,
+            });
+        } catch (error) {
+            const err = error as ErrorWithCode;
+            if (err.code === "ENOENT") {
+                res.json({ code: 0, data: [] });
+            } else {
+                logger.error("Failed to list recorded sessions:", error);
+                res.status(500).json({
+                    code: 1,
+                    msg: "Failed to list recorded sessions",
+                });
+            }
+        }
+    });
+
+    // Rebuild a recorded session and store it as a history entry
+    app.post("/api/sessions/load", async (req: Request, res: Response) => {
+        const { file } = req.body || {};
+        if (!file || typeof file !== "string") {
+            return res.status(400).json({
+                code: 1,
+                msg: "Missing session file",
+            });
+        }
+        // Only recordings in the sessions directory can be loaded
+        const sessionPath = path.join(SESSIONS_DIR, path.basename(file));
+
+        try {
+            const session = await loadSession(
+                sessionPath,
+                sniffer.getPacketProcessor(),
+                sniffer.logger,
+                globalSettings,
+                { saveToHistory: true },
+            );
+            res.json({
+                code: 0,
+                data: {
+                    file: sessionPath,
+                    serverEndpoint: session.serverEndpoint,
+                    localPlayerUuid: session.localPlayerUuid,
+                    frames: session.frames,
+                    startTime: session.startTime,
+                    endTime: session.endTime,
+                    historyTimestamp: session.userDataManager.startTime,
+                    userCount: session.userDataManager.users.size,
+                },
+            });
+        } catch (error) {
+            const err = error as ErrorWithCode;
+            if (err.code === "ENOENT") {
+                res.status(404).json({
+                    code: 1,
+                    msg: "Session file not found",
+                });
+            } else {
+                logger.error("Failed to load recorded session:", error);
+                res.status(500).json({
+                    code: 1,
+                    msg: "Failed to load recorded session",
+                });
+            }
+        }
+    });
+
     app.get(
         "/api/history/:timestamp/summary",
         async (req: Request, res: Response) => {
@@ -539,6 +751,207 @@ function initializeApi(
         },
     );
 
+    app.get(
+        "/api/history/:timestamp/timeline",
+        async (req: Request, res: Response) => {
+            const { timestamp } = req.params;
+            const historyFilePath = path.join(
+                USER_DATA_DIR,
+                "logs",
+                timestamp as string,
+                "timeline.json",
+            );
+
+            try {
+                const data = await fsPromises.readFile(historyFilePath, "utf8");
+                const timelineData = JSON.parse(data);
+                res.json({
+                    code: 0,
+                    data: timelineData,
+                });
+            } catch (error) {
+                const err = error as ErrorWithCode;
+                if (err.code === "ENOENT") {
+                    logger.warn("History timeline file not found:", error);
+                    res.status(404).json({
+                        code: 1,
+                        msg: "History timeline file not found",
+                    });
+                } else {
+                    logger.error(
+                        "Failed to read history timeline file:",
+                        error,
+                    );
+                    res.status(500).json({
+                        code: 1,
+                        msg: "Failed to load history timeline file",
+                    });
+                }
+            }
+        },
+    );
+
+    app.get(
+        "/api/history/:timestamp/deaths",
+        async (req: Request, res: Response) => {
+            const { timestamp } = req.params;
+            const historyFilePath = path.join(
+                USER_DATA_DIR,
+                "logs",
+                timestamp as string,
+                "deaths.json",
+            );
+
+            try {
+                const data = await fsPromises.readFile(historyFilePath, "utf8");
+                const deathsData = JSON.parse(data);
+                res.json({
+                    code: 0,
+                    data: deathsData,
+                });
+            } catch (error) {
+                const err = error as ErrorWithCode;
+                if (err.code === "ENOENT") {
+                    logger.warn("History deaths file not found:", error);
+                    res.status(404).json({
+                        code: 1,
+                        msg: "History deaths file not found",
+                    });
+                } else {
+                    logger.error("Failed to read history deaths file:", error);
+                    res.status(500).json({
+                        code: 1,
+                        msg: "Failed to load history deaths file",
+                    });
+                }
+            }
+        },
+    );
+
+    app.get("/api/rotations", async (req: Request, res: Response) => {
+        try {
+            res.json({ code: 0, data: await loadTemplates() });
+        } catch (error) {
+            logger.error("Failed to load rotation templates:", error);
+            res.status(500).json({
+                code: 1,
+                msg: "Failed to load rotation templates",
+            });
+        }
+    });
+
+    app.post("/api/rotations", async (req: Request, res: Response) => {
+        const template = req.body;
+        const invalid = validateTemplate(template);
+        if (invalid) {
+            return res.status(400).json({ code: 1, msg: invalid });
+        }
+        try {
+            await saveTemplate(template);
+            res.json({ code: 0, data: template });
+        } catch (error) {
+            logger.error("Failed to save rotation template:", error);
+            res.status(500).json({
+                code: 1,
+                msg: "Failed to save rotation template",
+            });
+        }
+    });
+
+    app.delete("/api/rotations/:name", async (req: Request, res: Response) => {
+        try {
+            await deleteTemplate(req.params.name as string);
+            res.json({ code: 0 });
+        } catch (error) {
+            const err = error as ErrorWithCode;
+            if (err.code === "ENOENT") {
+                res.status(404).json({
+                    code: 1,
+                    msg: "Rotation template not found",
+                });
+            } else {
+                logger.error("Failed to delete rotation template:", error);
+                res.status(500).json({
+                    code: 1,
+                    msg: "Failed to delete rotation template",
+                });
+            }
+        }
+    });
+
+    // Score a player's recorded casts against a rotation template
+    // (?template=<name>, otherwise the one matching their profession)
+    app.get(
+        "/api/history/:timestamp/rotation-check/:uid",
+        async (req: Request, res: Response) => {
+            const { timestamp, uid } = req.params;
+            const logDir = path.join(
+                USER_DATA_DIR,
+                "logs",
+                timestamp as string,
+            );
+
+            try {
+                const [userFile, summaryFile] = await Promise.all([
+                    fsPromises.readFile(
+                        path.join(logDir, "users", `${uid}.json`),
+                        "utf8",
+                    ),
+                    fsPromises.readFile(
+                        path.join(logDir, "summary.json"),
+                        "utf8",
+                    ),
+                ]);
+                const userData = JSON.parse(userFile);
+                const summary = JSON.parse(summaryFile);
+                if (!userData.rotation) {
+                    return res.status(404).json({
+                        code: 1,
+                        msg: "No casts recorded for this entry",
+                    });
+                }
+
+                const template = findTemplate(
+                    await loadTemplates(),
+                    userData.profession || "",
+                    typeof req.query.template === "string"
+                        ? req.query.template
+                        : undefined,
+                );
+                if (!template) {
+                    return res.status(404).json({
+                        code: 1,
+                        msg: "No rotation template for this profession",
+                    });
+                }
+
+                res.json({
+                    code: 0,
+                    data: checkRotation(
+                        userData.rotation,
+                        template,
+                        summary.duration ?? 0,
+                        DUMMY_IDS.has(summary.encounter?.primaryTarget?.id),
+                    ),
+                });
+            } catch (error) {
+                const err = error as ErrorWithCode;
+                if (err.code === "ENOENT") {
+                    res.status(404).json({
+                        code: 1,
+                        msg: "History entry not found",
+                    });
+                } else {
+                    logger.error("Failed to check rotation:", error);
+                    res.status(500).json({
+                        code: 1,
+                        msg: "Failed to check rotation",
+                    });
+                }
+            }
+        },
+    );
+
     app.get(
         "/api/history/:timestamp/download",
         async (req: Request, res: Response) => {
@@ -944,80 +1357,21 @@ function initializeApi(
         });
     });
 
-    // Boss detection and data broadcast interval
+    // Data broadcast interval
     setInterval(() => {
-        try {
-            const enemies = userDataManager.getAllEnemiesData?.() || {};
-            const entries = Object.entries(enemies) as Array<[string, any]>;
-            const now = Date.now();
-
-            if (!inBossEncounter) {
-                const bossWithCombat = entries.find(([id, e]) => {
-                    const eid = parseInt(id, 10);
-                    const isBoss = BOSS_IDS.has(eid);
-                    const hasCombat = !!(e?.stats?.total && e.stats.total > 0);
-                    return isBoss && hasCombat;
-                });
-                if (bossWithCombat) {
-                    inBossEncounter = true;
-                    activeBossId = parseInt(bossWithCombat[0], 10);
-                    activeBossName =
-                        bossWithCombat[1]?.name || String(activeBossId);
-                    lastBossSeenAt = now;
-                    (async () => {
-                        try {
-                            // Preserve player data; only reset combat statistics
-                            await userDataManager.resetStatistics();
-                            (globalSettings as any).totalPausedMs = 0;
-                            globalSettings.lastPausedAt = null;
-                            globalSettings.lastResumedAt = null;
-                            await fsPromises.writeFile(
-                                SETTINGS_PATH,
-                                JSON.stringify(globalSettings, null, 4),
-                                "utf8",
-                            );
-                            console.log(
-                                `Boss ${activeBossId} (${activeBossName}) detected. Statistics reset for new encounter (players preserved).`,
-                            );
-                        } catch (e) {
-                            console.error(
-                                "Failed to reset statistics on boss start:",
-                                e,
-                            );
-                        }
-                    })();
-                }
-            } else {
-                const bossStillSeen = entries.some(
-                    ([id]) => parseInt(id, 10) === activeBossId,
-                );
-                if (bossStillSeen) {
-                    lastBossSeenAt = now;
-                } else if (
-                    lastBossSeenAt &&
-                    now - lastBossSeenAt > BOSS_LOST_GRACE_MS
-                ) {
-                    inBossEncounter = false;
-                    activeBossId = null;
-                    activeBossName = null;
-                    lastBossSeenAt = null;
-                }
-            }
-        } catch (e) {
-            // ignore detection errors
-        }
-
         if (!globalSettings.isPaused) {
             const userData = userDataManager.getAllUsersData();
             const enemies = userDataManager.getAllEnemiesData?.() || {};
-            const ae = computeActiveEnemy(enemies);
+            const ae = computeActiveEnemy(enemies, isBossEnemy);
             const data: ApiResponse = { code: 0, user: userData } as any;
-            (data as any).activeBossId = activeBossId;
-            (data as any).activeBossName = activeBossName;
+            const activeBoss = getActiveBoss();
+            (data as any).activeBossId = activeBoss?.id ?? null;
+            (data as any).activeBossName = activeBoss?.name ?? null;
             (data as any).activeEnemyId = ae?.id ?? null;
             (data as any).activeEnemyName = ae?.name ?? null;
             (data as any).activeEnemyType = ae?.type ?? null;
             (data as any).activeEnemyIsBoss = ae?.isBoss ?? false;
+            (data as any).encounter = userDataManager.encounters.getStatus();
             io.emit("data", data);
         }
     }, 100);
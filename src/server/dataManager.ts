@@ -2,6 +2,9 @@ import { promises as fsPromises } from "fs";
 import path from "path";
 import { readFileSync } from "fs";
 import type { Logger, GlobalSettings, SkillConfig } from "../types/index";
+import { nowMs } from "../utils/clock";
+import { EncounterManager } from "./encounterManager";
+import type { EncounterEndReason, EncounterRecord } from "./encounterManager";
 
 // Use user data path in production, current directory in development
 const USER_DATA_DIR =
@@ -118,6 +121,25 @@ export function getSubProfessionBySkillId(skillId: number): string {
     }
 }
 
+// Bucket size of the per-encounter timeline series
+export const TIMELINE_BUCKET_MS = 1000;
+
+// Hits of one skill within this long of a cast's first hit belong to that
+// cast. The damage delta carries no cast id, so AoE hits on several targets
+// (same packet) and multi-hit skills collapse into one button press, while
+// repeated presses (autos, multi-tap skills) still count separately.
+const CAST_WINDOW_MS = 300;
+
+// Casts kept per player for the rotation timeline
+const CAST_LOG_MAX_EVENTS = 20000;
+
+// Lengths of the best rolling DPS windows reported per player
+const BURST_WINDOW_SECONDS = [10, 30, 60];
+
+// Incoming events kept per player for death recaps
+const DEATH_RECAP_WINDOW_MS = 10000;
+const DEATH_RECAP_MAX_EVENTS = 50;
+
 interface RealtimeEntry {
     time: number;
     value: number;
@@ -138,6 +160,9 @@ interface Count {
     lucky: number;
     crit_lucky: number;
     total: number;
+    // Attempts that dealt nothing; not part of total
+    miss: number;
+    zero_value: number;
 }
 
 interface RealtimeStats {
@@ -145,6 +170,21 @@ interface RealtimeStats {
     max: number;
 }
 
+// Best rolling window of a given length; start is an absolute time in ms
+interface BurstWindow {
+    seconds: number;
+    dps: number;
+    damage: number;
+    start: number;
+}
+
+interface CastEvent {
+    time: number;
+    skillId: number; // as stored in skillUsage (heals offset by 1e9)
+    hits: number;
+    damage: number;
+}
+
 export class StatisticData {
     user: UserData;
     type: string;
@@ -154,6 +194,17 @@ export class StatisticData {
     realtimeWindow: RealtimeEntry[];
     timeRange: [number | null, number | null];
     realtimeStats: RealtimeStats;
+    // Absolute bucket index (time / TIMELINE_BUCKET_MS) -> summed value
+    timeline: Map<number, number>;
+    // Estimated healing beyond the target's missing HP (healing stats only)
+    overheal: number;
+    // Casts grouped from own hits (summon hits excluded), see CAST_WINDOW_MS
+    casts: number;
+    castHits: number;
+    castDamage: number;
+    // First hit of the current cast
+    castStartedAt: number;
+    lastCast: CastEvent | null;
 
     constructor(user: UserData, type: string = "", element: string = "") {
         this.user = user;
@@ -173,6 +224,8 @@ export class StatisticData {
             lucky: 0,
             crit_lucky: 0,
             total: 0,
+            miss: 0,
+            zero_value: 0,
         };
         this.realtimeWindow = [];
         this.timeRange = [null, null];
@@ -180,6 +233,13 @@ export class StatisticData {
             value: 0,
             max: 0,
         };
+        this.timeline = new Map();
+        this.overheal = 0;
+        this.casts = 0;
+        this.castHits = 0;
+        this.castDamage = 0;
+        this.castStartedAt = 0;
+        this.lastCast = null;
     }
 
     addRecord(
@@ -188,7 +248,7 @@ export class StatisticData {
         isLucky: boolean,
         hpLessenValue: number = 0,
     ): void {
-        const now = Date.now();
+        const now = nowMs();
 
         if (isCrit) {
             if (isLucky) {
@@ -223,6 +283,9 @@ export class StatisticData {
             value,
         });
 
+        const bucket = Math.floor(now / TIMELINE_BUCKET_MS);
+        this.timeline.set(bucket, (this.timeline.get(bucket) || 0) + value);
+
         if (this.timeRange[0]) {
             this.timeRange[1] = now;
         } else {
@@ -230,8 +293,32 @@ export class StatisticData {
         }
     }
 
+    // Starts a new cast when the current one began more than CAST_WINDOW_MS
+    // ago. Returns true when this hit started a new cast.
+    addCastHit(value: number, landed: boolean = true): boolean {
+        const now = nowMs();
+        const isNewCast =
+            this.casts === 0 || now - this.castStartedAt > CAST_WINDOW_MS;
+        if (isNewCast) {
+            this.casts++;
+            this.castStartedAt = now;
+        }
+        if (landed) this.castHits++;
+        this.castDamage += value;
+        return isNewCast;
+    }
+
+    // A flagged miss, or a hit that landed for zero (immune, absorbed)
+    addMiss(isMiss: boolean): void {
+        if (isMiss) {
+            this.count.miss++;
+        } else {
+            this.count.zero_value++;
+        }
+    }
+
     updateRealtimeStats(): void {
-        const now = Date.now();
+        const now = nowMs();
 
         while (
             this.realtimeWindow.length > 0 &&
@@ -250,14 +337,66 @@ export class StatisticData {
     }
 
     getTotalPerSecond(): number {
+        return this.getPerSecond(this.stats.total);
+    }
+
+    // HP actually removed per second, over the same span as the total
+    getEffectivePerSecond(): number {
+        return this.getPerSecond(this.stats.hpLessen);
+    }
+
+    private getPerSecond(value: number): number {
         if (!this.timeRange[0] || !this.timeRange[1]) {
             return 0;
         }
-        const totalPerSecond =
-            (this.stats.total / (this.timeRange[1] - this.timeRange[0])) *
-                1000 || 0;
-        if (!Number.isFinite(totalPerSecond)) return 0;
-        return totalPerSecond;
+        const perSecond =
+            (value / (this.timeRange[1] - this.timeRange[0])) * 1000 || 0;
+        if (!Number.isFinite(perSecond)) return 0;
+        return perSecond;
+    }
+
+    // Best rolling sums over the timeline buckets. Windows longer than the
+    // recorded span are left out, since they would only restate the average.
+    getBurstWindows(): BurstWindow[] {
+        if (this.timeline.size === 0) return [];
+        const buckets = [...this.timeline.keys()];
+        const first = Math.min(...buckets);
+        const length = Math.max(...buckets) - first + 1;
+        const series = this.getTimelineSeries(first, length);
+
+        const windows: BurstWindow[] = [];
+        for (const seconds of BURST_WINDOW_SECONDS) {
+            const size = Math.round((seconds * 1000) / TIMELINE_BUCKET_MS);
+            if (size > length) continue;
+            let sum = 0;
+            for (let i = 0; i < size; i++) sum += series[i];
+            let best = sum;
+            let bestIndex = 0;
+            for (let i = size; i < length; i++) {
+                sum += series[i] - series[i - size];
+                if (sum > best) {
+                    best = sum;
+                    bestIndex = i - size + 1;
+                }
+            }
+            windows.push({
+                seconds,
+                dps: best / seconds,
+                damage: best,
+                start: (first + bestIndex) * TIMELINE_BUCKET_MS,
+            });
+        }
+        return windows;
+    }
+
+    // Dense series of `length` buckets starting at absolute bucket `first`
+    getTimelineSeries(first: number, length: number): number[] {
+        const series = new Array(length).fill(0);
+        for (const [bucket, value] of this.timeline) {
+            const index = bucket - first;
+            if (index >= 0 && index < length) series[index] += value;
+        }
+        return series;
     }
 
     reset(): void {
@@ -275,6 +414,8 @@ export class StatisticData {
             lucky: 0,
             crit_lucky: 0,
             total: 0,
+            miss: 0,
+            zero_value: 0,
         };
         this.realtimeWindow = [];
         this.timeRange = [null, null];
@@ -282,19 +423,34 @@ export class StatisticData {
             value: 0,
             max: 0,
         };
+        this.timeline = new Map();
+        this.overheal = 0;
+        this.casts = 0;
+        this.castHits = 0;
+        this.castDamage = 0;
+        this.castStartedAt = 0;
+        this.lastCast = null;
     }
 }
 
-interface UserSummary {
+export interface UserSummary {
     realtime_dps: number;
     realtime_dps_max: number;
     total_dps: number;
+    burst_windows: BurstWindow[];
+    effective_dps: number;
+    overkill: number;
     total_damage: Stats;
     total_count: Count;
     realtime_hps: number;
     realtime_hps_max: number;
     total_hps: number;
     total_healing: Stats;
+    total_overheal: number;
+    healing_received: HealingReceivedStats;
+    summon_damage: number;
+    primary_target_damage: number;
+    primary_target_dps: number;
     taken_damage: number;
     profession: string;
     name: string;
@@ -304,7 +460,7 @@ interface UserSummary {
     dead_count: number;
 }
 
-interface SkillSummary {
+export interface SkillSummary {
     [skillId: string]: {
         displayName: string | number;
         type: string;
@@ -317,15 +473,243 @@ interface SkillSummary {
         luckyRate: number;
         damageBreakdown: Stats;
         countBreakdown: Count;
+        overheal: number;
+        summonDamage: number;
+        missCount: number;
+        zeroCount: number;
+        missRate: number;
+        effectiveDamage: number;
+        overkill: number;
+        casts: number;
+        hitsPerCast: number;
+        avgPerCast: number;
+        castsPerMinute: number;
+    };
+}
+
+interface TakenDamageStats {
+    total: number;
+    count: number;
+    maxHit: number;
+    // Misses and zero-value hits from this attacker
+    avoided: number;
+}
+
+interface TakenDamageSource extends TakenDamageStats {
+    isPlayer: boolean;
+    skills: Map<number, TakenDamageStats>;
+}
+
+interface BiggestHit {
+    value: number;
+    attackerUid: number;
+    skillId: number;
+    time: number;
+}
+
+interface DamageTakenSummary {
+    total: number;
+    count: number;
+    avoided: number;
+    biggestHit:
+        | (BiggestHit & {
+              attackerName: string;
+              skillName: string | number;
+          })
+        | null;
+    sources: {
+        [attackerUid: string]: TakenDamageStats & {
+            name: string;
+            isPlayer: boolean;
+            skills: {
+                [skillId: string]: TakenDamageStats & {
+                    displayName: string | number;
+                };
+            };
+        };
+    };
+}
+
+interface HealingReceivedStats {
+    total: number;
+    effective: number;
+    overheal: number;
+    count: number;
+}
+
+interface HealingReceivedSource extends HealingReceivedStats {
+    isPlayer: boolean;
+    skills: Map<number, HealingReceivedStats>;
+}
+
+interface HealingReceivedSummary extends HealingReceivedStats {
+    sources: {
+        [healerUid: string]: HealingReceivedStats & {
+            name: string;
+            isPlayer: boolean;
+            skills: {
+                [skillId: string]: HealingReceivedStats & {
+                    displayName: string | number;
+                };
+            };
+        };
+    };
+}
+
+interface SummonSkillStats {
+    total: number;
+    count: number;
+}
+
+interface SummonSummary {
+    total: number;
+    count: number;
+    critCount: number;
+    luckyCount: number;
+    entityCount: number;
+    skills: {
+        [skillId: string]: SummonSkillStats & {
+            displayName: string | number;
+        };
+    };
+}
+
+interface TargetDamageStats {
+    total: number;
+    count: number;
+    miss: number;
+    firstHit: number;
+    lastHit: number;
+    skills: Map<number, { total: number; count: number; miss: number }>;
+}
+
+interface TargetDamageSummary {
+    [targetUid: string]: Omit<TargetDamageStats, "skills"> & {
+        name: string;
+        isBoss: boolean;
+        skills: {
+            [skillId: string]: {
+                displayName: string | number;
+                total: number;
+                count: number;
+                miss: number;
+            };
+        };
+    };
+}
+
+interface DamageMatrix {
+    targets: {
+        [targetUid: string]: {
+            name: string;
+            isBoss: boolean;
+            total: number;
+            hp: number | null;
+            maxHp: number | null;
+        };
+    };
+    players: {
+        [uid: string]: {
+            name: string;
+            profession: string;
+            total: number;
+            targets: TargetDamageSummary;
+        };
+    };
+}
+
+interface BreakdownStats {
+    total: number;
+    count: number;
+}
+
+interface IncomingEvent {
+    time: number;
+    type: "damage" | "heal";
+    sourceUid: number; // 0 when the source is unknown
+    isPlayerSource: boolean;
+    skillId: number;
+    value: number;
+    hpBefore: number | null;
+}
+
+export interface DeathRecap {
+    time: number;
+    uid: number;
+    name: string;
+    profession: string;
+    maxHp: number | null;
+    events: (IncomingEvent & {
+        sourceName: string;
+        skillName: string | number;
+    })[];
+}
+
+interface UserTimeline {
+    name: string;
+    profession: string;
+    damage: number[];
+    healing: number[];
+    skills: {
+        [skillId: string]: {
+            displayName: string | number;
+            type: string;
+            values: number[];
+        };
     };
 }
 
+interface RotationSummary {
+    startTime: number;
+    skills: {
+        [skillId: string]: {
+            displayName: string | number;
+            type: string;
+        };
+    };
+    // t is ms since startTime
+    casts: { t: number; skillId: number; hits: number; damage: number }[];
+}
+
+export interface EncounterTimeline {
+    bucketMs: number;
+    startTime: number;
+    endTime: number;
+    users: { [uid: string]: UserTimeline };
+}
+
+function getSkillDisplayName(skillId: number): string | number {
+    const skillConfigEntry = skillConfig[skillId];
+    return typeof skillConfigEntry === "string"
+        ? skillConfigEntry
+        : (skillConfigEntry?.name ?? skillId);
+}
+
 export class UserData {
     uid: number;
     name: string;
     damageStats: StatisticData;
     healingStats: StatisticData;
     takenDamage: number;
+    takenSources: Map<number, TakenDamageSource>;
+    biggestHit: BiggestHit | null;
+    recentIncoming: IncomingEvent[];
+    deathRecaps: DeathRecap[];
+    // Every cast in order, see CAST_LOG_MAX_EVENTS
+    castLog: CastEvent[];
+    // Keyed by healer uid; 0 collects heals from non-player sources
+    healingReceived: Map<number, HealingReceivedSource>;
+    // Share of damageStats dealt by summoned entities
+    summonStats: StatisticData;
+    summonSkills: Map<number, SummonSkillStats>;
+    summonEntities: Set<number>;
+    // Damage dealt per enemy, split by skill
+    targetDamage: Map<number, TargetDamageStats>;
+    // Damage by source type (skill, bullet, buff, ...) and by element
+    damageSources: Map<string, BreakdownStats>;
+    damageElements: Map<string, BreakdownStats>;
+    previousHp: number | null;
+    hpUpdatedAt: number;
     deadCount: number;
     profession: string;
     skillUsage: Map<number, StatisticData>;
@@ -339,6 +723,20 @@ export class UserData {
         this.damageStats = new StatisticData(this, "伤害");
         this.healingStats = new StatisticData(this, "治疗");
         this.takenDamage = 0;
+        this.takenSources = new Map();
+        this.biggestHit = null;
+        this.recentIncoming = [];
+        this.deathRecaps = [];
+        this.castLog = [];
+        this.healingReceived = new Map();
+        this.summonStats = new StatisticData(this, "伤害");
+        this.summonSkills = new Map();
+        this.summonEntities = new Set();
+        this.targetDamage = new Map();
+        this.damageSources = new Map();
+        this.damageElements = new Map();
+        this.previousHp = null;
+        this.hpUpdatedAt = 0;
         this.deadCount = 0;
         this.profession = "未知";
         this.skillUsage = new Map();
@@ -355,8 +753,32 @@ export class UserData {
         isLucky: boolean,
         isCauseLucky: boolean,
         hpLessenValue: number = 0,
+        summonUid: number = 0,
+        damageSource: string = "Unknown",
     ): void {
         this.damageStats.addRecord(damage, isCrit, isLucky, hpLessenValue);
+        for (const [breakdown, key] of [
+            [this.damageSources, damageSource],
+            [this.damageElements, element],
+        ] as const) {
+            const entry = breakdown.get(key);
+            if (entry) {
+                entry.total += damage;
+                entry.count++;
+            } else {
+                breakdown.set(key, { total: damage, count: 1 });
+            }
+        }
+        if (summonUid) {
+            this.addSummonDamage(
+                summonUid,
+                skillId,
+                damage,
+                isCrit,
+                isLucky,
+                hpLessenValue,
+            );
+        }
         if (!this.skillUsage.has(skillId)) {
             this.skillUsage.set(
                 skillId,
@@ -367,6 +789,9 @@ export class UserData {
             .get(skillId)!
             .addRecord(damage, isCrit, isCauseLucky, hpLessenValue);
         this.skillUsage.get(skillId)!.realtimeWindow.length = 0;
+        if (!summonUid) {
+            this.addCastHit(skillId, damage);
+        }
 
         const subProfession = getSubProfessionBySkillId(skillId);
         if (subProfession) {
@@ -374,6 +799,86 @@ export class UserData {
         }
     }
 
+    addSummonDamage(
+        summonUid: number,
+        skillId: number,
+        damage: number,
+        isCrit: boolean,
+        isLucky: boolean,
+        hpLessenValue: number,
+    ): void {
+        this.summonStats.addRecord(damage, isCrit, isLucky, hpLessenValue);
+        this.summonStats.realtimeWindow.length = 0;
+        this.summonEntities.add(summonUid);
+        let skill = this.summonSkills.get(skillId);
+        if (!skill) {
+            skill = { total: 0, count: 0 };
+            this.summonSkills.set(skillId, skill);
+        }
+        skill.total += damage;
+        skill.count++;
+    }
+
+    addTargetDamage(
+        targetUid: number,
+        skillId: number,
+        damage: number,
+        missed: boolean = false,
+    ): void {
+        const now = nowMs();
+        let target = this.targetDamage.get(targetUid);
+        if (!target) {
+            target = {
+                total: 0,
+                count: 0,
+                miss: 0,
+                firstHit: now,
+                lastHit: now,
+                skills: new Map(),
+            };
+            this.targetDamage.set(targetUid, target);
+        }
+        let skill = target.skills.get(skillId);
+        if (!skill) {
+            skill = { total: 0, count: 0, miss: 0 };
+            target.skills.set(skillId, skill);
+        }
+        if (missed) {
+            target.miss++;
+            skill.miss++;
+            return;
+        }
+        target.total += damage;
+        target.count++;
+        target.lastHit = now;
+        skill.total += damage;
+        skill.count++;
+    }
+
+    addMiss(
+        skillId: number,
+        element: string,
+        isMiss: boolean,
+        targetUid?: number,
+        summonUid: number = 0,
+    ): void {
+        this.damageStats.addMiss(isMiss);
+        if (!this.skillUsage.has(skillId)) {
+            this.skillUsage.set(
+                skillId,
+                new StatisticData(this, "伤害", element),
+            );
+        }
+        this.skillUsage.get(skillId)!.addMiss(isMiss);
+        // Summon attempts are not the owner's casts, as in addDamage
+        if (!summonUid) {
+            this.addCastHit(skillId, 0, false);
+        }
+        if (typeof targetUid === "number" && targetUid > 0) {
+            this.addTargetDamage(targetUid, skillId, 0, true);
+        }
+    }
+
     addHealing(
         skillId: number,
         element: string,
@@ -381,8 +886,10 @@ export class UserData {
         isCrit: boolean,
         isLucky: boolean,
         isCauseLucky: boolean,
+        overheal: number = 0,
     ): void {
         this.healingStats.addRecord(healing, isCrit, isLucky);
+        this.healingStats.overheal += overheal;
         skillId = skillId + 1000000000;
         if (!this.skillUsage.has(skillId)) {
             this.skillUsage.set(
@@ -391,7 +898,9 @@ export class UserData {
             );
         }
         this.skillUsage.get(skillId)!.addRecord(healing, isCrit, isCauseLucky);
+        this.skillUsage.get(skillId)!.overheal += overheal;
         this.skillUsage.get(skillId)!.realtimeWindow.length = 0;
+        this.addCastHit(skillId, healing);
 
         const subProfession = getSubProfessionBySkillId(skillId - 1000000000);
         if (subProfession) {
@@ -399,9 +908,226 @@ export class UserData {
         }
     }
 
-    addTakenDamage(damage: number, isDead: boolean): void {
+    // Groups the hit into a cast and logs each new cast for the rotation timeline
+    addCastHit(skillId: number, value: number, landed: boolean = true): void {
+        const stat = this.skillUsage.get(skillId);
+        if (!stat) return;
+        if (stat.addCastHit(value, landed) || !stat.lastCast) {
+            stat.lastCast = {
+                time: stat.castStartedAt,
+                skillId,
+                hits: 0,
+                damage: 0,
+            };
+            if (this.castLog.length < CAST_LOG_MAX_EVENTS) {
+                this.castLog.push(stat.lastCast);
+            }
+        }
+        if (landed) stat.lastCast.hits++;
+        stat.lastCast.damage += value;
+    }
+
+    addTakenDamage(
+        damage: number,
+        isDead: boolean,
+        attackerUid?: number,
+        skillId?: number,
+        isAttackerPlayer: boolean = false,
+    ): void {
         this.takenDamage += damage;
         if (isDead) this.deadCount++;
+        if (!attackerUid) return;
+
+        const skillKey = skillId || 0;
+        const [source, skill] = this.getTakenSource(
+            attackerUid,
+            skillKey,
+            isAttackerPlayer,
+        );
+        source.total += damage;
+        source.count++;
+        source.maxHit = Math.max(source.maxHit, damage);
+        skill.total += damage;
+        skill.count++;
+        skill.maxHit = Math.max(skill.maxHit, damage);
+
+        if (!this.biggestHit || damage > this.biggestHit.value) {
+            this.biggestHit = {
+                value: damage,
+                attackerUid,
+                skillId: skillKey,
+                time: nowMs(),
+            };
+        }
+    }
+
+    // Incoming attack that missed or landed for zero
+    addAvoided(
+        attackerUid: number,
+        skillId: number,
+        isAttackerPlayer: boolean,
+    ): void {
+        const [source, skill] = this.getTakenSource(
+            attackerUid,
+            skillId || 0,
+            isAttackerPlayer,
+        );
+        source.avoided++;
+        skill.avoided++;
+    }
+
+    getTakenSource(
+        attackerUid: number,
+        skillId: number,
+        isAttackerPlayer: boolean,
+    ): [TakenDamageSource, TakenDamageStats] {
+        let source = this.takenSources.get(attackerUid);
+        if (!source) {
+            source = {
+                total: 0,
+                count: 0,
+                maxHit: 0,
+                avoided: 0,
+                isPlayer: isAttackerPlayer,
+                skills: new Map(),
+            };
+            this.takenSources.set(attackerUid, source);
+        }
+        let skill = source.skills.get(skillId);
+        if (!skill) {
+            skill = { total: 0, count: 0, maxHit: 0, avoided: 0 };
+            source.skills.set(skillId, skill);
+        }
+        return [source, skill];
+    }
+
+    addHealingReceived(
+        healerUid: number,
+        skillId: number,
+        healing: number,
+        effective: number,
+        isHealerPlayer: boolean,
+    ): void {
+        let source = this.healingReceived.get(healerUid);
+        if (!source) {
+            source = {
+                total: 0,
+                effective: 0,
+                overheal: 0,
+                count: 0,
+                isPlayer: isHealerPlayer,
+                skills: new Map(),
+            };
+            this.healingReceived.set(healerUid, source);
+        }
+        let skill = source.skills.get(skillId);
+        if (!skill) {
+            skill = { total: 0, effective: 0, overheal: 0, count: 0 };
+            source.skills.set(skillId, skill);
+        }
+        for (const stats of [source, skill]) {
+            stats.total += healing;
+            stats.effective += effective;
+            stats.overheal += healing - effective;
+            stats.count++;
+        }
+    }
+
+    getHealingReceivedTotals(): HealingReceivedStats {
+        const totals = { total: 0, effective: 0, overheal: 0, count: 0 };
+        for (const source of this.healingReceived.values()) {
+            totals.total += source.total;
+            totals.effective += source.effective;
+            totals.overheal += source.overheal;
+            totals.count += source.count;
+        }
+        return totals;
+    }
+
+    getHealingReceivedSummary(
+        resolveName: (healerUid: number, isPlayer: boolean) => string,
+    ): HealingReceivedSummary {
+        const sources: HealingReceivedSummary["sources"] = {};
+        for (const [healerUid, source] of this.healingReceived) {
+            const skills: HealingReceivedSummary["sources"][string]["skills"] =
+                {};
+            for (const [skillId, skill] of source.skills) {
+                skills[skillId] = {
+                    displayName: getSkillDisplayName(skillId),
+                    ...skill,
+                };
+            }
+            sources[healerUid] = {
+                name: healerUid ? resolveName(healerUid, source.isPlayer) : "",
+                isPlayer: source.isPlayer,
+                total: source.total,
+                effective: source.effective,
+                overheal: source.overheal,
+                count: source.count,
+                skills,
+            };
+        }
+        return { ...this.getHealingReceivedTotals(), sources };
+    }
+
+    // Rolling buffer of incoming damage/heals, frozen into a recap on death.
+    // Returns the estimated HP before the event.
+    recordIncoming(
+        event: Omit<IncomingEvent, "time" | "hpBefore">,
+    ): number | null {
+        const now = nowMs();
+        let hpBefore: number | null;
+        if (this.hpUpdatedAt === now && this.previousHp !== null) {
+            // HP attributes arrive ahead of the hits in the same sync packet,
+            // so walk forward from the value before that update
+            hpBefore = this.previousHp;
+            const maxHp =
+                typeof this.attr.max_hp === "number"
+                    ? this.attr.max_hp
+                    : Infinity;
+            this.previousHp =
+                event.type === "damage"
+                    ? Math.max(0, hpBefore - event.value)
+                    : Math.min(maxHp, hpBefore + event.value);
+        } else {
+            hpBefore = typeof this.attr.hp === "number" ? this.attr.hp : null;
+        }
+
+        this.recentIncoming.push({ ...event, time: now, hpBefore });
+        const cutoff = now - DEATH_RECAP_WINDOW_MS;
+        while (
+            this.recentIncoming.length > DEATH_RECAP_MAX_EVENTS ||
+            (this.recentIncoming.length > 0 &&
+                this.recentIncoming[0].time < cutoff)
+        ) {
+            this.recentIncoming.shift();
+        }
+        return hpBefore;
+    }
+
+    freezeDeathRecap(
+        resolveName: (sourceUid: number, isPlayer: boolean) => string,
+    ): DeathRecap {
+        const recap: DeathRecap = {
+            time: nowMs(),
+            uid: this.uid,
+            name: this.name,
+            profession:
+                this.profession +
+                (this.subProfession ? `-${this.subProfession}` : ""),
+            maxHp:
+                typeof this.attr.max_hp === "number" ? this.attr.max_hp : null,
+            events: this.recentIncoming.map((event) => ({
+                ...event,
+                sourceName: event.sourceUid
+                    ? resolveName(event.sourceUid, event.isPlayerSource)
+                    : "",
+                skillName: getSkillDisplayName(event.skillId),
+            })),
+        };
+        this.deathRecaps.push(recap);
+        this.recentIncoming = [];
+        return recap;
     }
 
     updateRealtimeDps(): void {
@@ -429,20 +1155,48 @@ export class UserData {
                 this.damageStats.count.crit_lucky +
                 this.healingStats.count.crit_lucky,
             total: this.damageStats.count.total + this.healingStats.count.total,
+            miss: this.damageStats.count.miss + this.healingStats.count.miss,
+            zero_value:
+                this.damageStats.count.zero_value +
+                this.healingStats.count.zero_value,
         };
     }
 
-    getSummary(): UserSummary {
+    // Damage and DPS against a single enemy over the player's own damage span
+    getTargetDps(targetUid: number | null): { damage: number; dps: number } {
+        const damage =
+            targetUid !== null
+                ? (this.targetDamage.get(targetUid)?.total ?? 0)
+                : 0;
+        const [start, end] = this.damageStats.timeRange;
+        const dps =
+            start && end && end > start ? (damage / (end - start)) * 1000 : 0;
+        return { damage, dps: Number.isFinite(dps) ? dps : 0 };
+    }
+
+    getSummary(primaryTargetUid: number | null = null): UserSummary {
+        const primaryTarget = this.getTargetDps(primaryTargetUid);
         return {
             realtime_dps: this.damageStats.realtimeStats.value,
             realtime_dps_max: this.damageStats.realtimeStats.max,
             total_dps: this.getTotalDps(),
+            burst_windows: this.damageStats.getBurstWindows(),
+            effective_dps: this.damageStats.getEffectivePerSecond(),
+            overkill: Math.max(
+                0,
+                this.damageStats.stats.total - this.damageStats.stats.hpLessen,
+            ),
             total_damage: { ...this.damageStats.stats },
             total_count: this.getTotalCount(),
             realtime_hps: this.healingStats.realtimeStats.value,
             realtime_hps_max: this.healingStats.realtimeStats.max,
             total_hps: this.getTotalHps(),
             total_healing: { ...this.healingStats.stats },
+            total_overheal: this.healingStats.overheal,
+            healing_received: this.getHealingReceivedTotals(),
+            summon_damage: this.summonStats.stats.total,
+            primary_target_damage: primaryTarget.damage,
+            primary_target_dps: primaryTarget.dps,
             taken_damage: this.takenDamage,
             profession:
                 this.profession +
@@ -455,8 +1209,19 @@ export class UserData {
         };
     }
 
+    // From the first to the last damage or healing record
+    getActiveSpanMs(): number {
+        const times = [
+            ...this.damageStats.timeRange,
+            ...this.healingStats.timeRange,
+        ].filter((t): t is number => !!t);
+        if (times.length === 0) return 0;
+        return Math.max(...times) - Math.min(...times);
+    }
+
     getSkillSummary(): SkillSummary {
         const skills: SkillSummary = {};
+        const activeMinutes = this.getActiveSpanMs() / 60000;
         for (const [skillId, stat] of this.skillUsage) {
             const critCount = stat.count.critical;
             const luckyCount = stat.count.lucky;
@@ -464,12 +1229,11 @@ export class UserData {
                 stat.count.total > 0 ? critCount / stat.count.total : 0;
             const luckyRate =
                 stat.count.total > 0 ? luckyCount / stat.count.total : 0;
-            const skillConfigEntry = skillConfig[skillId % 1000000000];
-            const name =
-                typeof skillConfigEntry === "string"
-                    ? skillConfigEntry
-                    : (skillConfigEntry?.name ?? skillId % 1000000000);
+            const missed = stat.count.miss + stat.count.zero_value;
+            const attempts = stat.count.total + missed;
+            const name = getSkillDisplayName(skillId % 1000000000);
             const elementype = stat.element;
+            const isDamage = stat.type === "伤害";
 
             skills[skillId % 1000000000] = {
                 displayName: name,
@@ -483,11 +1247,182 @@ export class UserData {
                 luckyRate: luckyRate,
                 damageBreakdown: { ...stat.stats },
                 countBreakdown: { ...stat.count },
+                overheal: stat.overheal,
+                summonDamage: isDamage
+                    ? (this.summonSkills.get(skillId)?.total ?? 0)
+                    : 0,
+                missCount: stat.count.miss,
+                zeroCount: stat.count.zero_value,
+                missRate: attempts > 0 ? missed / attempts : 0,
+                effectiveDamage: isDamage ? stat.stats.hpLessen : 0,
+                overkill: isDamage
+                    ? Math.max(0, stat.stats.total - stat.stats.hpLessen)
+                    : 0,
+                casts: stat.casts,
+                hitsPerCast: stat.casts > 0 ? stat.castHits / stat.casts : 0,
+                avgPerCast: stat.casts > 0 ? stat.castDamage / stat.casts : 0,
+                castsPerMinute:
+                    activeMinutes > 0 ? stat.casts / activeMinutes : 0,
             };
         }
         return skills;
     }
 
+    getDamageBreakdown(): {
+        sources: Record<string, BreakdownStats>;
+        elements: Record<string, BreakdownStats>;
+    } {
+        return {
+            sources: Object.fromEntries(
+                [...this.damageSources].map(([k, v]) => [k, { ...v }]),
+            ),
+            elements: Object.fromEntries(
+                [...this.damageElements].map(([k, v]) => [k, { ...v }]),
+            ),
+        };
+    }
+
+    // Summoned-entity damage as one bucket under the owner, null if none
+    getSummonSummary(): SummonSummary | null {
+        if (this.summonEntities.size === 0) return null;
+        const skills: SummonSummary["skills"] = {};
+        for (const [skillId, skill] of this.summonSkills) {
+            skills[skillId] = {
+                displayName: getSkillDisplayName(skillId),
+                ...skill,
+            };
+        }
+        return {
+            total: this.summonStats.stats.total,
+            count: this.summonStats.count.total,
+            critCount: this.summonStats.count.critical,
+            luckyCount: this.summonStats.count.lucky,
+            entityCount: this.summonEntities.size,
+            skills,
+        };
+    }
+
+    getTargetDamageSummary(
+        resolveTarget: (targetUid: number) => { name: string; isBoss: boolean },
+    ): TargetDamageSummary {
+        const targets: TargetDamageSummary = {};
+        for (const [targetUid, target] of this.targetDamage) {
+            const skills: TargetDamageSummary[string]["skills"] = {};
+            for (const [skillId, skill] of target.skills) {
+                skills[skillId] = {
+                    displayName: getSkillDisplayName(skillId),
+                    ...skill,
+                };
+            }
+            targets[targetUid] = {
+                ...resolveTarget(targetUid),
+                total: target.total,
+                count: target.count,
+                miss: target.miss,
+                firstHit: target.firstHit,
+                lastHit: target.lastHit,
+                skills,
+            };
+        }
+        return targets;
+    }
+
+    // Damage taken grouped by attacker and attacker skill; the caller resolves
+    // attacker names since enemies are only known to the UserDataManager.
+    getDamageTakenSummary(
+        resolveName: (attackerUid: number, isPlayer: boolean) => string,
+    ): DamageTakenSummary {
+        const sources: DamageTakenSummary["sources"] = {};
+        for (const [attackerUid, source] of this.takenSources) {
+            const skills: DamageTakenSummary["sources"][string]["skills"] = {};
+            for (const [skillId, skill] of source.skills) {
+                skills[skillId] = {
+                    displayName: getSkillDisplayName(skillId),
+                    ...skill,
+                };
+            }
+            sources[attackerUid] = {
+                name: resolveName(attackerUid, source.isPlayer),
+                isPlayer: source.isPlayer,
+                total: source.total,
+                count: source.count,
+                maxHit: source.maxHit,
+                avoided: source.avoided,
+                skills,
+            };
+        }
+        let count = 0;
+        let avoided = 0;
+        for (const source of this.takenSources.values()) {
+            count += source.count;
+            avoided += source.avoided;
+        }
+
+        const hit = this.biggestHit;
+        return {
+            total: this.takenDamage,
+            count,
+            avoided,
+            biggestHit: hit
+                ? {
+                      ...hit,
+                      attackerName: sources[hit.attackerUid]?.name ?? "",
+                      skillName: getSkillDisplayName(hit.skillId),
+                  }
+                : null,
+            sources,
+        };
+    }
+
+    // Damage/healing per TIMELINE_BUCKET_MS bucket between startTime and endTime
+    getTimeline(startTime: number, endTime: number): UserTimeline {
+        const first = Math.floor(startTime / TIMELINE_BUCKET_MS);
+        const length = Math.max(
+            0,
+            Math.floor(endTime / TIMELINE_BUCKET_MS) - first + 1,
+        );
+        const skills: UserTimeline["skills"] = {};
+        for (const [skillId, stat] of this.skillUsage) {
+            skills[skillId % 1000000000] = {
+                displayName: getSkillDisplayName(skillId % 1000000000),
+                type: stat.type,
+                values: stat.getTimelineSeries(first, length),
+            };
+        }
+        return {
+            name: this.name,
+            profession:
+                this.profession +
+                (this.subProfession ? `-${this.subProfession}` : ""),
+            damage: this.damageStats.getTimelineSeries(first, length),
+            healing: this.healingStats.getTimelineSeries(first, length),
+            skills,
+        };
+    }
+
+    // Casts since startTime with the skills they belong to
+    getRotation(startTime: number): RotationSummary {
+        const skills: RotationSummary["skills"] = {};
+        const casts: RotationSummary["casts"] = [];
+        for (const cast of this.castLog) {
+            if (cast.time < startTime) continue;
+            const id = cast.skillId % 1000000000;
+            if (!skills[id]) {
+                skills[id] = {
+                    displayName: getSkillDisplayName(id),
+                    type: this.skillUsage.get(cast.skillId)?.type ?? "伤害",
+                };
+            }
+            casts.push({
+                t: cast.time - startTime,
+                skillId: id,
+                hits: cast.hits,
+                damage: cast.damage,
+            });
+        }
+        return { startTime, skills, casts };
+    }
+
     setProfession(profession: string): void {
         if (profession !== this.profession) this.setSubProfession("");
         this.profession = profession;
@@ -506,6 +1441,11 @@ export class UserData {
     }
 
     setAttrKV(key: string, value: any): void {
+        if (key === "hp") {
+            this.previousHp =
+                typeof this.attr.hp === "number" ? this.attr.hp : null;
+            this.hpUpdatedAt = nowMs();
+        }
         this.attr[key] = value;
     }
 
@@ -513,6 +1453,18 @@ export class UserData {
         this.damageStats.reset();
         this.healingStats.reset();
         this.takenDamage = 0;
+        this.takenSources.clear();
+        this.biggestHit = null;
+        this.recentIncoming = [];
+        this.deathRecaps = [];
+        this.castLog = [];
+        this.healingReceived.clear();
+        this.summonStats.reset();
+        this.summonSkills.clear();
+        this.summonEntities.clear();
+        this.targetDamage.clear();
+        this.damageSources.clear();
+        this.damageElements.clear();
         this.skillUsage.clear();
         this.fightPoint = 0;
     }
@@ -524,7 +1476,7 @@ interface CachedUserData {
     maxHp?: number;
 }
 
-interface EnemyCache {
+export interface EnemyCache {
     name: Map<string, string>;
     hp: Map<string, number>;
     maxHp: Map<string, number>;
@@ -548,9 +1500,11 @@ export class UserDataManager {
     logDirExist: Set<string>;
     enemyCache: EnemyCache;
     localPlayerUid: number | null;
-    lastLogTime?: number;
+    encounters: EncounterManager;
     // New: aggregate enemy damage to support active enemy detection
     enemyTotals: Map<number, number>;
+    // Called after refreshEnemyCache(), so a parser worker can drop its copy
+    onEnemyCacheRefresh: (() => void) | null;
 
     constructor(logger: Logger, globalSettings: GlobalSettings) {
         this.logger = logger;
@@ -559,7 +1513,7 @@ export class UserDataManager {
         this.userCache = new Map();
         this.playerMap = new Map();
         this.hpCache = new Map();
-        this.startTime = Date.now();
+        this.startTime = nowMs();
         this.logLock = new Lock();
         this.logDirExist = new Set();
         this.enemyCache = {
@@ -574,6 +1528,8 @@ export class UserDataManager {
         };
         this.localPlayerUid = null;
         this.enemyTotals = new Map();
+        this.onEnemyCacheRefresh = null;
+        this.encounters = new EncounterManager(this, logger, globalSettings);
         // Initialize translations according to chosen language
         loadTranslationsForLanguage(globalSettings.language || "en");
     }
@@ -641,8 +1597,10 @@ export class UserDataManager {
         isCauseLucky: boolean,
         hpLessenValue: number = 0,
         targetUid?: number,
+        summonUid: number = 0,
+        damageSource: string = "Unknown",
     ): void {
-        this.checkTimeoutClear();
+        this.encounters.onDamageDealt(targetUid);
         const user = this.getUser(uid);
         user.addDamage(
             skillId,
@@ -652,9 +1610,12 @@ export class UserDataManager {
             isLucky,
             isCauseLucky,
             hpLessenValue,
+            summonUid,
+            damageSource,
         );
         // New: accumulate damage dealt to target enemy
         if (typeof targetUid === "number" && targetUid > 0) {
+            user.addTargetDamage(targetUid, skillId, damage);
             const prev = this.enemyTotals.get(targetUid) || 0;
             const next = prev + (Number.isFinite(damage) ? damage : 0);
             this.enemyTotals.set(targetUid, next);
@@ -663,7 +1624,7 @@ export class UserDataManager {
                 const name =
                     this.getEnemyDisplayName(targetUid) || String(targetUid);
                 this.logger.info(
-                    `[ENCOUNTER-START] Enemy #${targetUid} (${name})`,
+                    `[ENEMY-ENGAGED] Enemy #${targetUid} (${name})`,
                 );
             }
             // Optional: debug log occasionally
@@ -675,6 +1636,35 @@ export class UserDataManager {
         }
     }
 
+    // Zero-value outcomes: dodges for player targets, misses for player attackers
+    addMiss(
+        attackerUid: number,
+        skillId: number,
+        element: string,
+        targetUid: number,
+        isAttackerPlayer: boolean,
+        isTargetPlayer: boolean,
+        isMiss: boolean,
+        summonUid: number = 0,
+    ): void {
+        this.encounters.onCombatActivity();
+        if (isTargetPlayer) {
+            this.getUser(targetUid).addAvoided(
+                attackerUid,
+                skillId,
+                isAttackerPlayer,
+            );
+        } else if (isAttackerPlayer) {
+            this.getUser(attackerUid).addMiss(
+                skillId,
+                element,
+                isMiss,
+                targetUid,
+                summonUid,
+            );
+        }
+    }
+
     addHealing(
         uid: number,
         skillId: number,
@@ -685,7 +1675,35 @@ export class UserDataManager {
         isCauseLucky: boolean,
         targetUid?: number,
     ): void {
-        this.checkTimeoutClear();
+        this.encounters.onCombatActivity();
+
+        // Effective healing is capped by the target's missing HP when known
+        let overheal = 0;
+        if (typeof targetUid === "number" && targetUid > 0) {
+            const target = this.getUser(targetUid);
+            const hpBefore = target.recordIncoming({
+                type: "heal",
+                sourceUid: uid,
+                isPlayerSource: uid !== 0,
+                skillId,
+                value: healing,
+            });
+            const maxHp = target.attr.max_hp;
+            const effective =
+                hpBefore !== null && typeof maxHp === "number" && maxHp > 0
+                    ? Math.max(0, Math.min(healing, maxHp - hpBefore))
+                    : healing;
+            overheal = healing - effective;
+            target.addHealingReceived(
+                uid,
+                skillId,
+                healing,
+                effective,
+                uid !== 0,
+            );
+        }
+
+        // Non-player heals (uid 0) only count as healing received
         if (uid !== 0) {
             const user = this.getUser(uid);
             user.addHealing(
@@ -695,14 +1713,59 @@ export class UserDataManager {
                 isCrit,
                 isLucky,
                 isCauseLucky,
+                overheal,
             );
         }
     }
 
-    addTakenDamage(uid: number, damage: number, isDead: boolean): void {
-        this.checkTimeoutClear();
+    addTakenDamage(
+        uid: number,
+        damage: number,
+        isDead: boolean,
+        attackerUid?: number,
+        skillId?: number,
+        isAttackerPlayer: boolean = false,
+    ): void {
+        this.encounters.onCombatActivity();
         const user = this.getUser(uid);
-        user.addTakenDamage(damage, isDead);
+        user.addTakenDamage(
+            damage,
+            isDead,
+            attackerUid,
+            skillId,
+            isAttackerPlayer,
+        );
+        user.recordIncoming({
+            type: "damage",
+            sourceUid: attackerUid || 0,
+            isPlayerSource: isAttackerPlayer,
+            skillId: skillId || 0,
+            value: damage,
+        });
+        if (isDead) {
+            const recap = user.freezeDeathRecap((id, isPlayer) =>
+                this.resolveAttackerName(id, isPlayer),
+            );
+            this.logger.info(
+                `[DEATH] ${user.name || uid} died (${recap.events.length} events in recap)`,
+            );
+            this.encounters.onPlayerDied(uid);
+        }
+    }
+
+    // Death recaps of the current encounter, oldest first
+    getDeathRecaps(users: Map<number, UserData> = this.users): DeathRecap[] {
+        const recaps: DeathRecap[] = [];
+        for (const user of users.values()) {
+            recaps.push(...user.deathRecaps);
+        }
+        return recaps.sort((a, b) => a.time - b.time);
+    }
+
+    // IsDead on a hit or an HP update to 0 for a monster
+    markEnemyDead(enemyUid: number): void {
+        this.enemyCache.hp.set(enemyUid as any, 0);
+        this.encounters.onEnemyDied(enemyUid);
     }
 
     async addLog(log: string): Promise<void> {
@@ -756,7 +1819,8 @@ export class UserDataManager {
 
     setAttrKV(uid: number, key: string, value: any): void {
         const user = this.getUser(uid);
-        user.attr[key] = value;
+        user.setAttrKV(key, value);
+        if (key === "hp" && value > 0) this.encounters.onPlayerRevived(uid);
     }
 
     updateAllRealtimeDps(): void {
@@ -776,14 +1840,76 @@ export class UserDataManager {
                 user.profession +
                 (user.subProfession ? `-${user.subProfession}` : ""),
             skills: user.getSkillSummary(),
+            damageTaken: user.getDamageTakenSummary((id, isPlayer) =>
+                this.resolveAttackerName(id, isPlayer),
+            ),
+            healingReceived: user.getHealingReceivedSummary((id, isPlayer) =>
+                this.resolveAttackerName(id, isPlayer),
+            ),
+            summons: user.getSummonSummary(),
+            damageBreakdown: user.getDamageBreakdown(),
+            targets: user.getTargetDamageSummary((id) =>
+                this.resolveTargetInfo(id),
+            ),
             attr: user.attr,
         };
     }
 
+    resolveAttackerName(attackerUid: number, isPlayer: boolean): string {
+        if (isPlayer) {
+            return this.users.get(attackerUid)?.name || String(attackerUid);
+        }
+        return (
+            this.getEnemyDisplayName(attackerUid) ||
+            this.enemyCache.name.get(attackerUid as any) ||
+            String(attackerUid)
+        );
+    }
+
+    resolveTargetInfo(targetUid: number): { name: string; isBoss: boolean } {
+        return {
+            name: this.getEnemyDisplayName(targetUid) || String(targetUid),
+            isBoss: this.encounters.isBossEnemy(targetUid),
+        };
+    }
+
+    // Player x enemy x skill damage for the running encounter
+    getDamageMatrix(): DamageMatrix {
+        const targets: DamageMatrix["targets"] = {};
+        for (const [targetUid, total] of this.enemyTotals) {
+            if (!(total > 0)) continue;
+            const hp = this.enemyCache.hp.get(targetUid as any);
+            const maxHp = this.enemyCache.maxHp.get(targetUid as any);
+            targets[targetUid] = {
+                ...this.resolveTargetInfo(targetUid),
+                total,
+                hp: typeof hp === "number" ? hp : null,
+                maxHp: typeof maxHp === "number" ? maxHp : null,
+            };
+        }
+
+        const players: DamageMatrix["players"] = {};
+        for (const [uid, user] of this.users) {
+            if (user.targetDamage.size === 0) continue;
+            players[uid] = {
+                name: user.name,
+                profession:
+                    user.profession +
+                    (user.subProfession ? `-${user.subProfession}` : ""),
+                total: user.damageStats.stats.total,
+                targets: user.getTargetDamageSummary((id) =>
+                    this.resolveTargetInfo(id),
+                ),
+            };
+        }
+        return { targets, players };
+    }
+
     getAllUsersData(): Record<number, UserSummary> {
         const result: Record<number, UserSummary> = {};
+        const primaryTargetUid = this.encounters.getPrimaryTarget()?.id ?? null;
         for (const [uid, user] of this.users.entries()) {
-            result[uid] = user.getSummary();
+            result[uid] = user.getSummary(primaryTargetUid);
         }
         return result;
     }
@@ -794,7 +1920,9 @@ export class UserDataManager {
         if (this.localPlayerUid) {
             const localUser = this.users.get(this.localPlayerUid);
             if (localUser) {
-                result[this.localPlayerUid] = localUser.getSummary();
+                result[this.localPlayerUid] = localUser.getSummary(
+                    this.encounters.getPrimaryTarget()?.id ?? null,
+                );
             }
         }
 
@@ -833,6 +1961,7 @@ export class UserDataManager {
     }
 
     refreshEnemyCache(): void {
+        this.encounters.forgetEnemies();
         this.enemyCache.name.clear();
         this.enemyCache.hp.clear();
         this.enemyCache.maxHp.clear();
@@ -841,15 +1970,14 @@ export class UserDataManager {
         this.enemyCache.reductionLevel?.clear?.();
         this.enemyCache.type?.clear?.();
         this.enemyCache.isBoss?.clear?.();
+        this.onEnemyCacheRefresh?.();
     }
 
-    async clearAll(): Promise<void> {
-        // Save current session before clearing
-        if (this.users.size > 0 && this.globalSettings.enableHistorySave) {
-            await this.saveAllUserData();
-        }
+    async clearAll(reason: EncounterEndReason = "manual-reset"): Promise<void> {
+        // Ending the running encounter stores it before clearing
+        this.encounters.endEncounter(reason);
         this.users = new Map();
-        this.startTime = Date.now();
+        this.startTime = nowMs();
         this.enemyTotals = new Map();
         this.refreshEnemyCache();
     }
@@ -860,28 +1988,50 @@ export class UserDataManager {
             user.damageStats = new StatisticData(user, "伤害");
             user.healingStats = new StatisticData(user, "治疗");
             user.takenDamage = 0;
+            user.takenSources = new Map();
+            user.biggestHit = null;
+            user.recentIncoming = [];
+            user.deathRecaps = [];
+            user.castLog = [];
+            user.healingReceived = new Map();
+            user.summonStats = new StatisticData(user, "伤害");
+            user.summonSkills = new Map();
+            user.summonEntities = new Set();
+            user.targetDamage = new Map();
+            user.damageSources = new Map();
+            user.damageElements = new Map();
             user.deadCount = 0;
             user.skillUsage = new Map();
         }
         this.enemyTotals = new Map();
         // Do not wipe enemy names/hp caches as they are metadata; keep them for display
-        this.startTime = Date.now();
+        this.startTime = nowMs();
         this.logger.info(
             "Combat-only reset completed. Player attributes preserved.",
         );
     }
 
     async resetStatistics(): Promise<void> {
-        // Save current session before resetting
-        if (this.users.size > 0 && this.globalSettings.enableHistorySave) {
-            await this.saveAllUserData();
-        }
+        // Ending the running encounter stores it before resetting
+        this.encounters.endEncounter("manual-reset");
 
         for (const [uid, user] of this.users.entries()) {
             // Reset encounter stats only; keep captured player packet details (name, profession, fightPoint, hp/max_hp, etc.)
             user.damageStats = new StatisticData(user, "伤害");
             user.healingStats = new StatisticData(user, "治疗");
             user.takenDamage = 0;
+            user.takenSources = new Map();
+            user.biggestHit = null;
+            user.recentIncoming = [];
+            user.deathRecaps = [];
+            user.castLog = [];
+            user.healingReceived = new Map();
+            user.summonStats = new StatisticData(user, "伤害");
+            user.summonSkills = new Map();
+            user.summonEntities = new Set();
+            user.targetDamage = new Map();
+            user.damageSources = new Map();
+            user.damageElements = new Map();
             user.deadCount = 0;
             user.skillUsage = new Map();
             // Intentionally do NOT reset user.attr or user.fightPoint
@@ -889,7 +2039,7 @@ export class UserDataManager {
         // Reset enemy totals for new encounter as well
         this.enemyTotals = new Map();
         // Keep enemy meta cache
-        this.startTime = Date.now();
+        this.startTime = nowMs();
         this.logger.info("Statistics reset while keeping player information.");
     }
 
@@ -900,11 +2050,14 @@ export class UserDataManager {
     async saveAllUserData(
         usersToSave: Map<number, UserData> | null = null,
         startTime: number | null = null,
+        encounter: EncounterRecord | null = null,
+        force: boolean = false,
     ): Promise<void> {
-        if (!this.globalSettings.enableHistorySave) return;
+        // Forced saves (finished dummy parses) ignore the history setting
+        if (!force && !this.globalSettings.enableHistorySave) return;
 
         try {
-            const endTime = Date.now();
+            const endTime = encounter?.endTime ?? nowMs();
             const users = usersToSave || this.users;
             const timestamp = startTime || this.startTime;
             const logDir = path.join(USER_DATA_DIR, "logs", String(timestamp));
@@ -915,12 +2068,25 @@ export class UserDataManager {
                 duration: endTime - timestamp,
                 userCount: users.size,
                 version: "3.1",
+                encounter,
             };
 
+            const deaths = this.getDeathRecaps(users);
+            const primaryTargetUid =
+                encounter?.primaryTarget?.id ??
+                this.encounters.getPrimaryTarget()?.id ??
+                null;
             const allUsersData: Record<number, UserSummary> = {};
             const userDatas = new Map();
+            const timeline: EncounterTimeline = {
+                bucketMs: TIMELINE_BUCKET_MS,
+                startTime: timestamp,
+                endTime,
+                users: {},
+            };
             for (const [uid, user] of users.entries()) {
-                allUsersData[uid] = user.getSummary();
+                allUsersData[uid] = user.getSummary(primaryTargetUid);
+                timeline.users[uid] = user.getTimeline(timestamp, endTime);
 
                 const userData = {
                     uid: user.uid,
@@ -929,6 +2095,20 @@ export class UserDataManager {
                         user.profession +
                         (user.subProfession ? `-${user.subProfession}` : ""),
                     skills: user.getSkillSummary(),
+                    damageTaken: user.getDamageTakenSummary((id, isPlayer) =>
+                        this.resolveAttackerName(id, isPlayer),
+                    ),
+                    healingReceived: user.getHealingReceivedSummary(
+                        (id, isPlayer) =>
+                            this.resolveAttackerName(id, isPlayer),
+                    ),
+                    summons: user.getSummonSummary(),
+                    damageBreakdown: user.getDamageBreakdown(),
+                    targets: user.getTargetDamageSummary((id) =>
+                        this.resolveTargetInfo(id),
+                    ),
+                    rotation: user.getRotation(timestamp),
+                    burstWindows: user.damageStats.getBurstWindows(),
                     attr: user.attr,
                 };
                 userDatas.set(uid, userData);
@@ -956,6 +2136,18 @@ export class UserDataManager {
                 );
             }
 
+            await fsPromises.writeFile(
+                path.join(logDir, "timeline.json"),
+                JSON.stringify(timeline),
+                "utf8",
+            );
+
+            await fsPromises.writeFile(
+                path.join(logDir, "deaths.json"),
+                JSON.stringify(deaths, null, 4),
+                "utf8",
+            );
+
             await fsPromises.writeFile(
                 path.join(logDir, "summary.json"),
                 JSON.stringify(summary, null, 4),
@@ -971,16 +2163,6 @@ export class UserDataManager {
         }
     }
 
-    checkTimeoutClear(): void {
-        if (!this.globalSettings.autoClearOnTimeout || this.users.size === 0)
-            return;
-        const currentTime = Date.now();
-        if (this.lastLogTime && currentTime - this.lastLogTime > 20000) {
-            this.clearAll();
-            this.logger.info("Timeout reached, statistics cleared!");
-        }
-    }
-
     // Lightweight helper to mark boss via heuristics
     private markEnemyTypeIfBoss(enemyUid: number): void {
         const key = String(enemyUid);
@@ -996,7 +2178,7 @@ export class UserDataManager {
     }
 
     // Resolve a display name for an enemy id from caches/translations/custom fallbacks
-    private getEnemyDisplayName(idNum: number): string | undefined {
+    getEnemyDisplayName(idNum: number): string | undefined {
         const idStr = String(idNum);
         const cached = this.enemyCache.name.get(idStr);
         const cfgId = this.enemyCache.configId?.get(idStr);
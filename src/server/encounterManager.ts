@@ -0,0 +1,517 @@
+import { nowMs } from "../utils/clock";
+import type {
+    UserDataManager,
+    UserData,
+    UserSummary,
+    SkillSummary,
+} from "./dataManager";
+import type { Logger, GlobalSettings } from "../types/index";
+
+// Boss entity IDs; engaging one always opens a fresh encounter
+export const BOSS_IDS = new Set<number>([
+    783, // Goblin
+    425, // Tina
+    185, // Tower
+    38, // Kanima
+    103588, // Dark Mist Fortress
+    1985, // Dragon Claw Valley
+    15179, // Frost Ogre
+    146, // Arachnocrab
+    15395, // Tempest Ogre
+    15323, // Muku Chief
+    15269, // Brigand Leader
+    15159, // Golden Juggernaut
+    15202, // Inferno Ogre
+    87, // Lizardman King
+    147, // Venobzzar Incubator
+]);
+
+// Practice target entity IDs; hitting one starts an armed dummy parse
+export const DUMMY_IDS = new Set<number>([
+    75, // Training Dummy
+]);
+
+// Lengths a dummy parse can be armed with
+export const DUMMY_PARSE_DURATIONS_MS = [60000, 180000, 300000];
+
+// Combat inactivity after which the running encounter is closed
+const COMBAT_TIMEOUT_MS = 20000;
+// Number of finished encounters kept in memory
+const MAX_ENCOUNTER_HISTORY = 100;
+
+export type EncounterState = "idle" | "in-combat" | "wiped" | "killed";
+export type EncounterOutcome = "killed" | "wiped" | "unknown";
+export type EncounterStartReason = "combat" | "boss-engaged" | "dummy-parse";
+export type EncounterEndReason =
+    | "timeout"
+    | "target-killed"
+    | "party-wiped"
+    | "boss-engaged"
+    | "dummy-parse"
+    | "parse-complete"
+    | "server-change"
+    | "manual-reset"
+    | "capture-end";
+
+export interface EncounterTarget {
+    id: number;
+    name: string;
+    isBoss: boolean;
+    dead: boolean;
+    hp: number | null;
+    maxHp: number | null;
+}
+
+/**
+ * Picks the primary target from per-enemy damage totals: the engaged boss,
+ * otherwise the most damaged enemy. The active enemy shown by the API and
+ * Target DPS both use it, so they always agree.
+ */
+export function selectPrimaryTarget(
+    totals: Iterable<[number, number]>,
+    isBoss: (uid: number) => boolean,
+): number | null {
+    let best: number | null = null;
+    let bestTotal = 0;
+    let bestIsBoss = false;
+    for (const [uid, total] of totals) {
+        if (!(total > 0)) continue;
+        const boss = isBoss(uid);
+        if (
+            best === null ||
+            (boss && !bestIsBoss) ||
+            (boss === bestIsBoss && total > bestTotal)
+        ) {
+            best = uid;
+            bestTotal = total;
+            bestIsBoss = boss;
+        }
+    }
+    return best;
+}
+
+export type DummyParseState = "off" | "armed" | "running" | "done";
+
+export interface DummyParseStatus {
+    state: DummyParseState;
+    durationMs: number;
+    startTime: number | null;
+    endAt: number | null;
+}
+
+// Per-player totals of a finished encounter, kept in memory so earlier pulls
+// survive the reset at the next pull even when history saving is off
+export interface EncounterSnapshot {
+    users: Record<number, UserSummary>;
+    skills: Record<number, SkillSummary>;
+}
+
+export interface EncounterRecord {
+    id: string;
+    startTime: number;
+    endTime: number | null;
+    startReason: EncounterStartReason;
+    endReason: EncounterEndReason | null;
+    primaryTarget: EncounterTarget | null;
+    outcome: EncounterOutcome | null;
+    playerCount: number;
+    totalDamage: number;
+}
+
+/**
+ * Splits the combat stream into encounters (pulls).
+ *
+ * idle/killed/wiped --first hit on an enemy--> in-combat
+ * in-combat --boss dead / party dead / inactivity / reset / server change--> killed|wiped|idle
+ *
+ * A fight counts as a kill when its primary target died (IsDead or HP 0) and
+ * as a wipe when every participating player died, or when a boss fight
+ * timed out or was left while the boss was still alive.
+ *
+ * Starting an encounter resets the running totals; ending one keeps a
+ * snapshot of every player's totals in memory (and writes a history entry
+ * when history saving is enabled).
+ *
+ * An armed dummy parse waits for the first hit on a training dummy, then runs
+ * a fixed-length encounter that ignores the inactivity timeout. When the time
+ * is up the encounter ends, is always saved, and the meter is paused.
+ */
+export class EncounterManager {
+    state: EncounterState;
+    current: EncounterRecord | null;
+    history: EncounterRecord[];
+    lastCombatAt: number;
+    // Wall time of the latest damage/heal, in or out of an encounter
+    // (capture health; compared with Date.now() even during replays)
+    lastEventAt: number | null;
+    dummyParse: DummyParseStatus;
+    #deadEnemies: Set<number>;
+    #deadPlayers: Set<number>;
+    #snapshots: Map<string, EncounterSnapshot>;
+    #userDataManager: UserDataManager;
+    #logger: Logger;
+    #globalSettings: GlobalSettings;
+
+    constructor(
+        userDataManager: UserDataManager,
+        logger: Logger,
+        globalSettings: GlobalSettings,
+    ) {
+        this.state = "idle";
+        this.current = null;
+        this.history = [];
+        this.lastCombatAt = 0;
+        this.lastEventAt = null;
+        this.dummyParse = {
+            state: "off",
+            durationMs: DUMMY_PARSE_DURATIONS_MS[0],
+            startTime: null,
+            endAt: null,
+        };
+        this.#deadEnemies = new Set();
+        this.#deadPlayers = new Set();
+        this.#snapshots = new Map();
+        this.#userDataManager = userDataManager;
+        this.#logger = logger;
+        this.#globalSettings = globalSettings;
+    }
+
+    isBossEnemy(enemyUid: number): boolean {
+        const isBoss = this.#userDataManager.enemyCache.isBoss;
+        return (
+            BOSS_IDS.has(enemyUid) ||
+            !!isBoss?.get(enemyUid as any) ||
+            !!isBoss?.get(String(enemyUid))
+        );
+    }
+
+    // Player damage against an enemy: may open (or split off) an encounter.
+    onDamageDealt(targetUid?: number): void {
+        const now = nowMs();
+        this.lastEventAt = Date.now();
+        this.#closeIfTimedOut(now);
+        if (
+            this.dummyParse.state === "running" &&
+            now >= this.dummyParse.endAt!
+        ) {
+            this.#completeDummyParse();
+        }
+        // Hits racing the freeze must not open a new encounter over the result
+        if (this.dummyParse.state === "done" && this.#globalSettings.isPaused)
+            return;
+
+        const hasEnemyTarget = typeof targetUid === "number" && targetUid > 0;
+        if (
+            this.dummyParse.state === "armed" &&
+            hasEnemyTarget &&
+            DUMMY_IDS.has(targetUid)
+        ) {
+            this.endEncounter("dummy-parse");
+            this.#start(now, "dummy-parse");
+            this.dummyParse = {
+                ...this.dummyParse,
+                state: "running",
+                startTime: now,
+                endAt: now + this.dummyParse.durationMs,
+            };
+        } else if (this.state !== "in-combat") {
+            // Late hits (DoTs, projectiles) on a corpse don't open a new fight
+            if (!hasEnemyTarget || this.#deadEnemies.has(targetUid)) return;
+            this.#start(
+                now,
+                this.isBossEnemy(targetUid) ? "boss-engaged" : "combat",
+            );
+        } else if (
+            this.dummyParse.state !== "running" &&
+            hasEnemyTarget &&
+            this.isBossEnemy(targetUid) &&
+            !this.current?.primaryTarget?.isBoss &&
+            !this.#isBossInvolved()
+        ) {
+            // A trash pull turned into a boss fight: give the boss its own encounter
+            this.endEncounter("boss-engaged");
+            this.#start(now, "boss-engaged");
+        }
+        this.lastCombatAt = now;
+    }
+
+    // Healing or damage taken only keeps an open encounter alive
+    onCombatActivity(): void {
+        const now = nowMs();
+        this.lastEventAt = Date.now();
+        this.#closeIfTimedOut(now);
+        if (this.state === "in-combat") this.lastCombatAt = now;
+    }
+
+    onEnemyDied(enemyUid: number): void {
+        this.#deadEnemies.add(enemyUid);
+        this.#checkTargetKilled();
+    }
+
+    onPlayerDied(uid: number): void {
+        this.#deadPlayers.add(uid);
+        if (this.state !== "in-combat") return;
+        let participants = 0;
+        for (const user of this.#userDataManager.users.values()) {
+            if (!this.#isParticipant(user)) continue;
+            if (!this.#deadPlayers.has(user.uid)) return;
+            participants++;
+        }
+        if (participants > 0) this.endEncounter("party-wiped", "wiped");
+    }
+
+    onPlayerRevived(uid: number): void {
+        this.#deadPlayers.delete(uid);
+    }
+
+    // Entity ids are reused across instances, so forget deaths on map change
+    forgetEnemies(): void {
+        this.#deadEnemies.clear();
+    }
+
+    // Waits for the next hit on a dummy; a running parse is replaced
+    armDummyParse(durationMs: number): boolean {
+        if (!DUMMY_PARSE_DURATIONS_MS.includes(durationMs)) return false;
+        if (this.dummyParse.state === "running") {
+            this.dummyParse.state = "off";
+            this.endEncounter("manual-reset");
+        }
+        this.dummyParse = {
+            state: "armed",
+            durationMs,
+            startTime: null,
+            endAt: null,
+        };
+        // Unfreeze a meter stopped by the previous parse
+        if (this.#globalSettings.isPaused) {
+            this.#globalSettings.isPaused = false;
+            this.#globalSettings.lastPausedAt = null;
+            this.#globalSettings.lastResumedAt = Date.now();
+        }
+        this.#logger.info(`[DUMMY-PARSE] armed for ${durationMs / 1000}s`);
+        return true;
+    }
+
+    // Disarms, or stops a running parse without saving it as complete
+    cancelDummyParse(): void {
+        const wasRunning = this.dummyParse.state === "running";
+        this.dummyParse = {
+            ...this.dummyParse,
+            state: "off",
+            startTime: null,
+            endAt: null,
+        };
+        if (wasRunning) this.endEncounter("manual-reset");
+    }
+
+    // Periodic check for encounter end conditions
+    tick(): void {
+        if (this.state !== "in-combat" || !this.current) return;
+        if (this.dummyParse.state === "running") {
+            if (nowMs() >= this.dummyParse.endAt!) this.#completeDummyParse();
+            return;
+        }
+        if (this.#checkTargetKilled()) return;
+        this.#closeIfTimedOut(nowMs());
+    }
+
+    endEncounter(
+        reason: EncounterEndReason,
+        outcome?: EncounterOutcome,
+        endTime: number = nowMs(),
+    ): EncounterRecord | null {
+        if (this.state !== "in-combat" || !this.current) return null;
+
+        const record = this.current;
+        const target = this.getPrimaryTarget();
+        record.endTime = endTime;
+        record.endReason = reason;
+        record.primaryTarget = target;
+        record.outcome = outcome ?? this.#decideOutcome(reason, target);
+        record.playerCount = this.#userDataManager.users.size;
+        record.totalDamage = 0;
+        for (const user of this.#userDataManager.users.values()) {
+            record.totalDamage += user.damageStats.stats.total;
+        }
+
+        this.current = null;
+        // Any other end (reset, wipe, server change) aborts the parse
+        if (this.dummyParse.state === "running") {
+            this.dummyParse.state =
+                reason === "parse-complete" ? "done" : "off";
+        }
+        this.history.push(record);
+        this.#snapshots.set(record.id, this.#takeSnapshot(target));
+        if (this.history.length > MAX_ENCOUNTER_HISTORY) {
+            this.#snapshots.delete(this.history.shift()!.id);
+        }
+        this.state =
+            record.outcome === "killed"
+                ? "killed"
+                : record.outcome === "wiped"
+                  ? "wiped"
+                  : "idle";
+
+        this.#logger.info(
+            `[ENCOUNTER-END] #${record.id} ${reason} -> ${record.outcome} (${target ? `${target.name} #${target.id}` : "no target"})`,
+        );
+
+        // Users are snapshotted synchronously, so resets after this call are safe
+        this.#userDataManager
+            .saveAllUserData(
+                null,
+                record.startTime,
+                record,
+                reason === "parse-complete",
+            )
+            .catch((error) =>
+                this.#logger.error(
+                    `[ENCOUNTER-END] #${record.id} could not be saved: ${error}`,
+                ),
+            );
+
+        if (reason === "timeout" && this.#globalSettings.autoClearOnTimeout) {
+            this.#userDataManager.clearAll("timeout");
+            this.#logger.info("Timeout reached, statistics cleared!");
+        }
+        return record;
+    }
+
+    // Enemy with the most damage taken this encounter; bosses take precedence
+    getPrimaryTarget(): EncounterTarget | null {
+        const best = selectPrimaryTarget(
+            this.#userDataManager.enemyTotals,
+            (uid) => this.isBossEnemy(uid),
+        );
+        if (best === null) return null;
+
+        const cache = this.#userDataManager.enemyCache;
+        const hp = cache.hp.get(best as any);
+        const maxHp = cache.maxHp.get(best as any);
+        return {
+            id: best,
+            name:
+                this.#userDataManager.getEnemyDisplayName(best) || String(best),
+            isBoss: this.isBossEnemy(best),
+            dead: this.#deadEnemies.has(best) || hp === 0,
+            hp: typeof hp === "number" ? hp : null,
+            maxHp: typeof maxHp === "number" ? maxHp : null,
+        };
+    }
+
+    // Player totals of a finished encounter still in the history
+    getSnapshot(id: string): EncounterSnapshot | null {
+        return this.#snapshots.get(id) ?? null;
+    }
+
+    getStatus(): {
+        state: EncounterState;
+        current: EncounterRecord | null;
+        last: EncounterRecord | null;
+        dummyParse: DummyParseStatus;
+    } {
+        return {
+            state: this.state,
+            current: this.current
+                ? { ...this.current, primaryTarget: this.getPrimaryTarget() }
+                : null,
+            last: this.history[this.history.length - 1] ?? null,
+            dummyParse: { ...this.dummyParse },
+        };
+    }
+
+    #takeSnapshot(target: EncounterTarget | null): EncounterSnapshot {
+        const snapshot: EncounterSnapshot = { users: {}, skills: {} };
+        for (const [uid, user] of this.#userDataManager.users) {
+            snapshot.users[uid] = user.getSummary(target?.id ?? null);
+            snapshot.skills[uid] = user.getSkillSummary();
+        }
+        return snapshot;
+    }
+
+    // Ends the parse at its scheduled time and freezes the meter
+    #completeDummyParse(): void {
+        const endAt = this.dummyParse.endAt!;
+        this.endEncounter("parse-complete", undefined, endAt);
+        if (!this.#globalSettings.isPaused) {
+            this.#globalSettings.isPaused = true;
+            this.#globalSettings.lastPausedAt = Date.now();
+        }
+        this.#logger.info(
+            `[DUMMY-PARSE] complete after ${this.dummyParse.durationMs / 1000}s`,
+        );
+    }
+
+    // Boss fights end as soon as the boss dies
+    #checkTargetKilled(): boolean {
+        if (this.state !== "in-combat") return false;
+        const target = this.getPrimaryTarget();
+        if (!target?.isBoss || !target.dead) return false;
+        this.endEncounter("target-killed", "killed");
+        return true;
+    }
+
+    #decideOutcome(
+        reason: EncounterEndReason,
+        target: EncounterTarget | null,
+    ): EncounterOutcome {
+        if (target?.dead) return "killed";
+        // Walking away from (or out of) a living boss is a failed attempt
+        if (
+            target?.isBoss &&
+            (reason === "timeout" || reason === "server-change")
+        ) {
+            return "wiped";
+        }
+        return "unknown";
+    }
+
+    #isParticipant(user: UserData): boolean {
+        return (
+            user.damageStats.stats.total > 0 ||
+            user.healingStats.stats.total > 0 ||
+            user.takenDamage > 0
+        );
+    }
+
+    #isBossInvolved(): boolean {
+        for (const [uid, total] of this.#userDataManager.enemyTotals) {
+            if (total > 0 && this.isBossEnemy(uid)) return true;
+        }
+        return false;
+    }
+
+    #closeIfTimedOut(now: number): void {
+        if (
+            this.state === "in-combat" &&
+            this.dummyParse.state !== "running" &&
+            now - this.lastCombatAt > COMBAT_TIMEOUT_MS
+        ) {
+            this.endEncounter("timeout", undefined, this.lastCombatAt);
+        }
+    }
+
+    #start(now: number, reason: EncounterStartReason): void {
+        // Previous totals were snapshotted when that encounter ended
+        this.#userDataManager.resetCombatOnly();
+        this.#deadPlayers.clear();
+        this.#globalSettings.totalPausedMs = 0;
+        this.#globalSettings.lastPausedAt = null;
+        this.#globalSettings.lastResumedAt = null;
+
+        this.current = {
+            id: String(now),
+            startTime: now,
+            endTime: null,
+            startReason: reason,
+            endReason: null,
+            primaryTarget: null,
+            outcome: null,
+            playerCount: 0,
+            totalDamage: 0,
+        };
+        this.state = "in-combat";
+        this.lastCombatAt = now;
+        this.#logger.info(`[ENCOUNTER-START] #${this.current.id} (${reason})`);
+    }
+}
@@ -0,0 +1,322 @@
+// Link-layer header types as defined by tcpdump.org/linktypes.html
+export const LINKTYPE_NULL = 0;
+export const LINKTYPE_ETHERNET = 1;
+export const LINKTYPE_RAW = 101;
+export const LINKTYPE_LOOP = 108;
+export const LINKTYPE_LINUX_SLL = 113;
+export const LINKTYPE_IPV4 = 228;
+export const LINKTYPE_IPV6 = 229;
+export const LINKTYPE_LINUX_SLL2 = 276;
+
+export type LinkType =
+    "ETHERNET" | "NULL" | "LOOP" | "RAW" | "LINUX_SLL" | "LINUX_SLL2";
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = [0x8100, 0x88a8, 0x9100];
+
+// Address families used by BSD/Windows loopback (NULL) and LOOP headers
+const AF_INET = 2;
+const AF_INET6 = [10, 23, 24, 28, 30];
+
+const IPPROTO_HOPOPTS = 0;
+const IPPROTO_ROUTING = 43;
+const IPPROTO_FRAGMENT = 44;
+const IPPROTO_ESP = 50;
+const IPPROTO_AH = 51;
+const IPPROTO_NONE = 59;
+const IPPROTO_DSTOPTS = 60;
+const IPPROTO_MOBILITY = 135;
+
+export interface IpFragment {
+    id: number;
+    /** Byte offset of this fragment in the original payload. */
+    offset: number;
+    more: boolean;
+}
+
+export interface IpPacket {
+    version: 4 | 6;
+    srcaddr: string;
+    dstaddr: string;
+    protocol: number;
+    /** Upper-layer payload, or this fragment's part of it. */
+    payload: Buffer;
+    fragment: IpFragment | null;
+}
+
+// Maps the link type reported by cap's open() to ours
+export function linkTypeFromCap(name: string): LinkType | null {
+    switch (name) {
+        case "ETHERNET":
+        case "NULL":
+        case "RAW":
+            return name;
+        case "LINKTYPE_LINUX_SLL":
+            return "LINUX_SLL";
+    }
+    // cap reports types it has no name for as "Unknown linktype <dlt>"
+    const match = /^Unknown linktype (\d+)$/.exec(name);
+    return match ? linkTypeFromPcap(Number(match[1])) : null;
+}
+
+export function linkTypeFromPcap(linkType: number): LinkType | null {
+    switch (linkType) {
+        case LINKTYPE_NULL:
+            return "NULL";
+        case LINKTYPE_ETHERNET:
+            return "ETHERNET";
+        case LINKTYPE_RAW:
+        case LINKTYPE_IPV4:
+        case LINKTYPE_IPV6:
+        case 12: // DLT_RAW on most BSDs
+        case 14: // DLT_RAW on OpenBSD
+            return "RAW";
+        case LINKTYPE_LOOP:
+            return "LOOP";
+        case LINKTYPE_LINUX_SLL:
+            return "LINUX_SLL";
+        case LINKTYPE_LINUX_SLL2:
+            return "LINUX_SLL2";
+        default:
+            return null;
+    }
+}
+
+function ipVersionOfEtherType(etherType: number): 4 | 6 | null {
+    if (etherType === ETHERTYPE_IPV4) return 4;
+    if (etherType === ETHERTYPE_IPV6) return 6;
+    return null;
+}
+
+function ipVersionOfFamily(family: number): 4 | 6 | null {
+    if (family === AF_INET) return 4;
+    if (AF_INET6.includes(family)) return 6;
+    return null;
+}
+
+// Returns the offset of the IP header in a captured frame, or null when the
+// frame does not carry IPv4 or IPv6
+export function findIpHeader(frame: Buffer, linkType: LinkType): number | null {
+    let offset: number;
+    let version: 4 | 6 | null;
+    switch (linkType) {
+        case "ETHERNET": {
+            offset = 12;
+            if (frame.length < offset + 2) return null;
+            let etherType = frame.readUInt16BE(offset);
+            // Skip 802.1Q / 802.1ad tags
+            while (ETHERTYPE_VLAN.includes(etherType)) {
+                offset += 4;
+                if (frame.length < offset + 2) return null;
+                etherType = frame.readUInt16BE(offset);
+            }
+            offset += 2;
+            version = ipVersionOfEtherType(etherType);
+            break;
+        }
+        case "LINUX_SLL":
+            offset = 16;
+            if (frame.length < offset) return null;
+            version = ipVersionOfEtherType(frame.readUInt16BE(14));
+            break;
+        case "LINUX_SLL2":
+            offset = 20;
+            if (frame.length < offset) return null;
+            version = ipVersionOfEtherType(frame.readUInt16BE(0));
+            break;
+        case "NULL":
+        case "LOOP": {
+            offset = 4;
+            if (frame.length < offset) return null;
+            // NULL is in the capturing host's byte order, LOOP in network
+            // order; family values fit in one byte, so either can be read
+            const family =
+                frame[0] !== 0 ? frame.readUInt32LE(0) : frame.readUInt32BE(0);
+            version = ipVersionOfFamily(family);
+            break;
+        }
+        case "RAW":
+            offset = 0;
+            version = null;
+            break;
+    }
+    if (frame.length <= offset) return null;
+    const actual = frame[offset] >> 4;
+    if (actual !== 4 && actual !== 6) return null;
+    return version === null || version === actual ? offset : null;
+}
+
+function formatIpv6(buf: Buffer, offset: number): string {
+    const groups: number[] = [];
+    for (let i = 0; i < 8; i++) groups.push(buf.readUInt16BE(offset + i * 2));
+
+    // RFC 5952: collapse the longest run of two or more zero groups
+    let bestStart = -1;
+    let bestLength = 1;
+    for (let i = 0; i < 8;) {
+        if (groups[i] !== 0) {
+            i++;
+            continue;
+        }
+        let j = i;
+        while (j < 8 && groups[j] === 0) j++;
+        if (j - i > bestLength) {
+            bestStart = i;
+            bestLength = j - i;
+        }
+        i = j;
+    }
+
+    const hex = (list: number[]) => list.map((g) => g.toString(16)).join(":");
+    if (bestStart < 0) return hex(groups);
+    return (
+        hex(groups.slice(0, bestStart)) +
+        "::" +
+        hex(groups.slice(bestStart + bestLength))
+    );
+}
+
+function decodeIpv4(buf: Buffer, offset: number): IpPacket | null {
+    if (buf.length < offset + 20) return null;
+    const headerLength = (buf[offset] & 0x0f) * 4;
+    const totalLength = buf.readUInt16BE(offset + 2);
+    if (headerLength < 20 || totalLength < headerLength) return null;
+
+    const flagsAndOffset = buf.readUInt16BE(offset + 6);
+    const more = (flagsAndOffset & 0x2000) !== 0;
+    const fragmentOffset = (flagsAndOffset & 0x1fff) * 8;
+    const end = Math.min(buf.length, offset + totalLength);
+
+    return {
+        version: 4,
+        srcaddr: Array.from(buf.subarray(offset + 12, offset + 16)).join("."),
+        dstaddr: Array.from(buf.subarray(offset + 16, offset + 20)).join("."),
+        protocol: buf[offset + 9],
+        payload: buf.subarray(offset + headerLength, end),
+        fragment:
+            more || fragmentOffset > 0
+                ? {
+                      id: buf.readUInt16BE(offset + 4),
+                      offset: fragmentOffset,
+                      more,
+                  }
+                : null,
+    };
+}
+
+interface HeaderChain {
+    protocol: number;
+    offset: number;
+    fragment: IpFragment | null;
+}
+
+// Walks IPv6 extension headers from offset up to the upper-layer protocol.
+// Stops after a fragment header, since what follows it is fragment data.
+function walkExtensionHeaders(
+    buf: Buffer,
+    protocol: number,
+    offset: number,
+    end: number,
+): HeaderChain | null {
+    for (;;) {
+        switch (protocol) {
+            case IPPROTO_HOPOPTS:
+            case IPPROTO_ROUTING:
+            case IPPROTO_DSTOPTS:
+            case IPPROTO_MOBILITY:
+                if (offset + 8 > end) return null;
+                protocol = buf[offset];
+                offset += 8 + buf[offset + 1] * 8;
+                break;
+            case IPPROTO_AH:
+                if (offset + 8 > end) return null;
+                protocol = buf[offset];
+                offset += (buf[offset + 1] + 2) * 4;
+                break;
+            case IPPROTO_FRAGMENT: {
+                if (offset + 8 > end) return null;
+                const offsetAndFlags = buf.readUInt16BE(offset + 2);
+                const fragment = {
+                    id: buf.readUInt32BE(offset + 4),
+                    offset: offsetAndFlags & 0xfff8,
+                    more: (offsetAndFlags & 0x1) !== 0,
+                };
+                protocol = buf[offset];
+                offset += 8;
+                if (fragment.offset > 0 || fragment.more) {
+                    return { protocol, offset, fragment };
+                }
+                // Atomic fragment: the rest of the chain follows as usual
+                break;
+            }
+            case IPPROTO_ESP: // encrypted
+            case IPPROTO_NONE:
+                return null;
+            default:
+                return offset <= end
+                    ? { protocol, offset, fragment: null }
+                    : null;
+        }
+    }
+}
+
+function decodeIpv6(buf: Buffer, offset: number): IpPacket | null {
+    if (buf.length < offset + 40) return null;
+    const end = Math.min(
+        buf.length,
+        offset + 40 + buf.readUInt16BE(offset + 4),
+    );
+    const chain = walkExtensionHeaders(buf, buf[offset + 6], offset + 40, end);
+    if (!chain) return null;
+
+    return {
+        version: 6,
+        srcaddr: formatIpv6(buf, offset + 8),
+        dstaddr: formatIpv6(buf, offset + 24),
+        protocol: chain.protocol,
+        payload: buf.subarray(chain.offset, end),
+        fragment: chain.fragment,
+    };
+}
+
+// Skips the extension headers at the start of a reassembled IPv6 payload.
+// IPv4 payloads are returned as they are.
+export function reassembledPayload(
+    packet: IpPacket,
+    payload: Buffer,
+): { protocol: number; payload: Buffer } | null {
+    if (packet.version === 4) return { protocol: packet.protocol, payload };
+    const chain = walkExtensionHeaders(
+        payload,
+        packet.protocol,
+        0,
+        payload.length,
+    );
+    if (!chain || chain.fragment) return null;
+    return {
+        protocol: chain.protocol,
+        payload: payload.subarray(chain.offset),
+    };
+}
+
+/**
+ * Decodes the IPv4 or IPv6 packet in a captured frame. Link-layer padding is
+ * trimmed from the payload using the IP length fields. Returns null for
+ * anything that is not IP or is too short to read.
+ */
+export function decodeIpPacket(
+    frame: Buffer,
+    linkType: LinkType,
+): IpPacket | null {
+    const offset = findIpHeader(frame, linkType);
+    if (offset === null) return null;
+    return frame[offset] >> 4 === 4
+        ? decodeIpv4(frame, offset)
+        : decodeIpv6(frame, offset);
+}
+
+// "host:port", with IPv6 hosts in brackets
+export function formatEndpoint(addr: string, port: number): string {
+    return addr.includes(":") ? `[${addr}]:${port}` : `${addr}:${port}`;
+}
@@ -0,0 +1,17 @@
+import winston from "winston";
+import type { Logger } from "winston";
+
+// Console logger shared by the server and the parser worker
+export function createLogger(level: string = "info"): Logger {
+    return winston.createLogger({
+        level,
+        format: winston.format.combine(
+            winston.format.colorize({ all: true }),
+            winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
+            winston.format.printf((info) => {
+                return `[${info.timestamp}] [${info.level}] ${info.message}`;
+            }),
+        ),
+        transports: [new winston.transports.Console()],
+    });
+}
@@ -0,0 +1,271 @@
+import { Worker } from "worker_threads";
+import fs from "fs";
+import path from "path";
+import Long from "long";
+import { nowMs, runAt } from "../utils/clock";
+import type { Logger } from "winston";
+import type { UserDataManager } from "./dataManager";
+import type { ParserStats } from "../types";
+import type PacketProcessor from "../../algo/packet";
+import type {
+    ParserEvent,
+    ParserReply,
+    ParserRequest,
+    ParserWorkerData,
+    ParserWorkerSettings,
+} from "./parserWorker";
+
+// Built next to the server bundle (see electron.vite.config.ts)
+export const PARSER_WORKER_PATH = path.join(__dirname, "parserWorker.js");
+
+// Crashes in a row, without a reply in between, before decoding moves to
+// the main thread
+const MAX_WORKER_RESTARTS = 3;
+
+interface QueuedFrame {
+    time: number;
+    // Own exact-size copy, so its buffer can be transferred to the worker
+    data: Uint8Array;
+}
+
+/**
+ * Runs PacketProcessor in a worker thread so zstd, protobuf decoding and
+ * fight logging stay off the event loop that serves the API and socket.io.
+ *
+ * Frames are queued with their capture time and posted once per event-loop
+ * turn. The worker replies with compact combat events, which are applied to
+ * the UserDataManager with nowMs() pinned to the time of their frame.
+ *
+ * A crashed worker is replaced (the frames it was decoding are lost). When
+ * it keeps failing, frames are decoded on the main thread instead.
+ */
+export class ParserThread {
+    #logger: Logger;
+    #userDataManager: UserDataManager;
+    #PacketProcessorClass: typeof PacketProcessor;
+    #worker: Worker | null;
+    // Main-thread processor once the worker has been given up on
+    #fallback: PacketProcessor | null;
+    #restarts: number;
+    #stats: ParserStats;
+    #queue: QueuedFrame[];
+    #postScheduled: boolean;
+    // Frame batches posted and not answered yet
+    #inFlight: number;
+    // Bumped by resetEnemies(); replies to older batches are dropped
+    #generation: number;
+    #idleWaiters: (() => void)[];
+    #localPlayerUuid: string;
+    // Settings the current worker was last given
+    #settings: ParserWorkerSettings;
+
+    constructor(
+        logger: Logger,
+        userDataManager: UserDataManager,
+        PacketProcessorClass: typeof PacketProcessor,
+    ) {
+        this.#logger = logger;
+        this.#userDataManager = userDataManager;
+        this.#PacketProcessorClass = PacketProcessorClass;
+        this.#fallback = null;
+        this.#restarts = 0;
+        this.#queue = [];
+        this.#postScheduled = false;
+        this.#inFlight = 0;
+        this.#generation = 0;
+        this.#idleWaiters = [];
+        this.#localPlayerUuid = "0";
+        this.#stats = {
+            decodeErrors: 0,
+            zstdFailures: 0,
+            unknownMethodIds: {},
+        };
+        this.#settings = this.#currentSettings();
+        this.#worker = this.#spawn();
+    }
+
+    static isAvailable(): boolean {
+        return fs.existsSync(PARSER_WORKER_PATH);
+    }
+
+    get stats(): ParserStats {
+        return this.#fallback?.stats ?? this.#stats;
+    }
+
+    processPacket(frame: Buffer) {
+        if (this.#fallback) {
+            this.#fallback.processPacket(frame);
+            return;
+        }
+        this.#queue.push({ time: nowMs(), data: new Uint8Array(frame) });
+        if (!this.#postScheduled) {
+            this.#postScheduled = true;
+            setImmediate(() => this.#post());
+        }
+    }
+
+    getLocalPlayerUuid(): string {
+        if (this.#fallback) {
+            return this.#fallback.getLocalPlayerUuid().toString();
+        }
+        return this.#localPlayerUuid;
+    }
+
+    // Makes the worker forget enemies, after the main cache was cleared.
+    // Events of frames handed over before this are no longer applied.
+    resetEnemies() {
+        this.#post();
+        this.#generation++;
+        this.#send({ type: "resetEnemies" });
+    }
+
+    // Resolves once every frame handed over so far has been applied
+    flush(): Promise<void> {
+        this.#post();
+        if (this.#inFlight === 0) return Promise.resolve();
+        return new Promise((resolve) => this.#idleWaiters.push(resolve));
+    }
+
+    async terminate(): Promise<void> {
+        const worker = this.#worker;
+        this.#worker = null;
+        this.#queue = [];
+        this.#inFlight = 0;
+        this.#releaseWaiters();
+        await worker?.terminate();
+    }
+
+    #spawn(): Worker {
+        this.#settings = this.#currentSettings();
+        const workerData: ParserWorkerData = {
+            ...this.#settings,
+            localPlayerUuid: this.#localPlayerUuid,
+            enemyNames: [...this.#userDataManager.enemyCache.name],
+        };
+        const worker = new Worker(PARSER_WORKER_PATH, { workerData });
+        worker.on("message", (reply: ParserReply) => this.#onReply(reply));
+        worker.on("error", (e) => this.#onWorkerFailed(worker, e.message));
+        worker.on("exit", (code) =>
+            this.#onWorkerFailed(worker, `exited with code ${code}`),
+        );
+        return worker;
+    }
+
+    // Replaces a worker that crashed or exited. Waiters are released since
+    // the batches it held will never be answered.
+    #onWorkerFailed(worker: Worker, reason: string) {
+        // terminate() detaches the worker first, so it never gets here
+        if (worker !== this.#worker) return;
+        this.#logger.error(`Parser worker failed: ${reason}`);
+        this.#worker = null;
+        this.#inFlight = 0;
+        this.#releaseWaiters();
+
+        if (++this.#restarts > MAX_WORKER_RESTARTS) {
+            this.#logger.warn(
+                "Parser worker keeps failing, decoding on the main thread",
+            );
+            this.#fallback = new this.#PacketProcessorClass({
+                logger: this.#logger,
+                userDataManager: this.#userDataManager,
+            });
+            this.#fallback.setLocalPlayerUuid(
+                Long.fromString(this.#localPlayerUuid),
+                false,
+            );
+        } else {
+            this.#worker = this.#spawn();
+        }
+        this.#post();
+    }
+
+    #post() {
+        this.#postScheduled = false;
+        if (this.#queue.length === 0) return;
+        const frames = this.#queue;
+        this.#queue = [];
+        if (this.#fallback) {
+            for (const frame of frames) {
+                runAt(frame.time, () =>
+                    this.#fallback!.processPacket(Buffer.from(frame.data)),
+                );
+            }
+            return;
+        }
+        this.#syncSettings();
+        this.#inFlight++;
+        this.#send(
+            { type: "frames", generation: this.#generation, frames },
+            frames.map((frame) => frame.data.buffer as ArrayBuffer),
+        );
+    }
+
+    #currentSettings(): ParserWorkerSettings {
+        return {
+            logLevel: this.#logger.level,
+            enableFightLog:
+                !!this.#userDataManager.globalSettings.enableFightLog,
+        };
+    }
+
+    // Settings can change at any time (API, LOG_LEVEL at startup); the worker
+    // is told before the next frames it decodes
+    #syncSettings() {
+        const settings = this.#currentSettings();
+        if (
+            settings.logLevel === this.#settings.logLevel &&
+            settings.enableFightLog === this.#settings.enableFightLog
+        ) {
+            return;
+        }
+        this.#settings = settings;
+        this.#send({ type: "settings", ...settings });
+    }
+
+    #send(request: ParserRequest, transfer: ArrayBuffer[] = []) {
+        this.#worker?.postMessage(request, transfer);
+    }
+
+    #onReply(reply: ParserReply) {
+        this.#restarts = 0;
+        this.#stats = reply.stats;
+        this.#localPlayerUuid = reply.localPlayerUuid;
+        if (reply.generation === this.#generation) {
+            for (const batch of reply.batches) {
+                runAt(batch.time, () => {
+                    for (const event of batch.events) this.#apply(event);
+                });
+            }
+        }
+        this.#inFlight = Math.max(0, this.#inFlight - 1);
+        if (this.#inFlight === 0) this.#releaseWaiters();
+    }
+
+    #apply(event: ParserEvent) {
+        try {
+            if (event[0] === "enemy") {
+                const [, field, id, value] = event;
+                this.#userDataManager.enemyCache[field]?.set(
+                    id,
+                    value as never,
+                );
+                return;
+            }
+            const [method, ...args] = event;
+            const target = this.#userDataManager[method] as (
+                ...args: unknown[]
+            ) => unknown;
+            target.apply(this.#userDataManager, args);
+        } catch (e) {
+            this.#logger.error(`Failed to apply ${event[0]} event: ${e}`);
+        }
+    }
+
+    #releaseWaiters() {
+        const waiters = this.#idleWaiters;
+        this.#idleWaiters = [];
+        for (const resolve of waiters) resolve();
+    }
+}
+
+export default ParserThread;
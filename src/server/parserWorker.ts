@@ -0,0 +1,169 @@
+import { parentPort, workerData } from "worker_threads";
+import Long from "long";
+import PacketProcessor from "../../algo/packet";
+import { createLogger } from "./logger";
+import type { EnemyCache, UserDataManager } from "./dataManager";
+import type { ParserStats } from "../types";
+
+// UserDataManager calls PacketProcessor makes. In the worker each call is
+// recorded as an event and replayed on the main thread's data manager.
+const USER_DATA_METHODS = [
+    "addDamage",
+    "addHealing",
+    "addTakenDamage",
+    "addMiss",
+    "markEnemyDead",
+    "setAttrKV",
+    "setName",
+    "setFightPoint",
+    "setProfession",
+    "setLocalPlayerUid",
+    "addLog",
+] as const;
+
+export type UserDataMethod = (typeof USER_DATA_METHODS)[number];
+export type EnemyCacheField = keyof EnemyCache;
+
+// [method, ...args] for a data manager call, or an enemy cache write
+export type ParserEvent =
+    | [UserDataMethod, ...unknown[]]
+    | ["enemy", EnemyCacheField, string, unknown];
+
+// Events decoded from one frame, with the time the frame was captured
+export interface ParserEventBatch {
+    time: number;
+    events: ParserEvent[];
+}
+
+// Main-thread settings the worker follows, see ParserThread.#syncSettings()
+export interface ParserWorkerSettings {
+    logLevel: string;
+    enableFightLog: boolean;
+}
+
+// State carried over when a crashed worker is replaced
+export interface ParserWorkerData extends ParserWorkerSettings {
+    localPlayerUuid: string;
+    enemyNames: [string, string][];
+}
+
+export type ParserRequest =
+    | {
+          type: "frames";
+          generation: number;
+          frames: { time: number; data: Uint8Array }[];
+      }
+    | { type: "resetEnemies" }
+    | ({ type: "settings" } & ParserWorkerSettings);
+
+export interface ParserReply {
+    type: "events";
+    // Echoed from the request, see ParserThread.resetEnemies()
+    generation: number;
+    batches: ParserEventBatch[];
+    stats: ParserStats;
+    localPlayerUuid: string;
+}
+
+let events: ParserEvent[] = [];
+
+// Enemy cache map that records its writes. PacketProcessor reads names back,
+// so the worker keeps its own copy.
+class RecordingMap<V> extends Map<string, V> {
+    #field: EnemyCacheField;
+
+    // Seed entries are not recorded; the main thread already has them
+    constructor(field: EnemyCacheField, seed: [string, V][] = []) {
+        super();
+        this.#field = field;
+        for (const [key, value] of seed) super.set(key, value);
+    }
+
+    set(key: string, value: V): this {
+        events.push(["enemy", this.#field, key, value]);
+        return super.set(key, value);
+    }
+}
+
+function createEnemyCache(names: [string, string][] = []): EnemyCache {
+    return {
+        name: new RecordingMap("name", names),
+        hp: new RecordingMap("hp"),
+        maxHp: new RecordingMap("maxHp"),
+        configId: new RecordingMap("configId"),
+        reductionId: new RecordingMap("reductionId"),
+        reductionLevel: new RecordingMap("reductionLevel"),
+        type: new RecordingMap("type"),
+        isBoss: new RecordingMap("isBoss"),
+    };
+}
+
+// Stand-in for UserDataManager with just what PacketProcessor uses
+function createDataSink(
+    enemyNames: [string, string][],
+    enableFightLog: boolean,
+) {
+    const names = new Map<number, string>();
+    const sink: Record<string, unknown> = {};
+    for (const method of USER_DATA_METHODS) {
+        sink[method] = (...args: unknown[]) => {
+            events.push([method, ...args]);
+        };
+    }
+    const recordName = sink.setName as (uid: number, name: string) => void;
+    sink.setName = (uid: number, name: string) => {
+        names.set(uid, name);
+        recordName(uid, name);
+    };
+    // Only the name is read, for the fight log line
+    sink.getUser = (uid: number) => ({ name: names.get(uid) ?? "" });
+    sink.enemyCache = createEnemyCache(enemyNames);
+    // Fight log lines are neither built nor sent while this is off
+    sink.globalSettings = { enableFightLog };
+    return sink as unknown as UserDataManager;
+}
+
+if (parentPort) {
+    const port = parentPort;
+    const { logLevel, enableFightLog, localPlayerUuid, enemyNames } =
+        workerData as ParserWorkerData;
+    const userDataManager = createDataSink(enemyNames, enableFightLog);
+    const logger = createLogger(logLevel);
+    const processor = new PacketProcessor({ logger, userDataManager });
+    processor.setLocalPlayerUuid(Long.fromString(localPlayerUuid), false);
+
+    port.on("message", (request: ParserRequest) => {
+        switch (request.type) {
+            case "frames": {
+                const batches: ParserEventBatch[] = [];
+                for (const frame of request.frames) {
+                    const data = frame.data;
+                    processor.processPacket(
+                        Buffer.from(data.buffer, data.byteOffset, data.length),
+                    );
+                    if (events.length > 0) {
+                        batches.push({ time: frame.time, events });
+                        events = [];
+                    }
+                }
+                const reply: ParserReply = {
+                    type: "events",
+                    generation: request.generation,
+                    batches,
+                    stats: processor.stats,
+                    localPlayerUuid: processor.getLocalPlayerUuid().toString(),
+                };
+                port.postMessage(reply);
+                break;
+            }
+            case "resetEnemies":
+                userDataManager.enemyCache = createEnemyCache();
+                break;
+            case "settings":
+                logger.level = request.logLevel;
+                userDataManager.globalSettings.enableFightLog =
+                    request.enableFightLog;
+                break;
+        }
+    });
+}
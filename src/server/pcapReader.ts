@@ -0,0 +1,222 @@
+import fsPromises from "fs/promises";
+
+export interface PcapRecord {
+    /** Capture timestamp in milliseconds since the epoch (fractional). */
+    timestamp: number;
+    /** Link-layer header type, see linkTypeFromPcap() in ipDecoder.ts. */
+    linkType: number;
+    data: Buffer;
+}
+
+const PCAP_MAGIC_MICRO = 0xa1b2c3d4;
+const PCAP_MAGIC_NANO = 0xa1b23c4d;
+const PCAPNG_SHB = 0x0a0d0d0a;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+const PCAPNG_IDB = 0x00000001;
+const PCAPNG_OPB = 0x00000002;
+const PCAPNG_SPB = 0x00000003;
+const PCAPNG_EPB = 0x00000006;
+const PCAPNG_OPT_IF_TSRESOL = 9;
+
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+interface PcapngInterface {
+    linkType: number;
+    /** Duration of one timestamp unit, in milliseconds. */
+    unitMs: number;
+}
+
+/**
+ * Streaming reader for classic libpcap (.pcap) and pcapng capture files.
+ * Records are yielded in file order without loading the whole file in memory.
+ */
+export class PcapReader {
+    public filePath: string;
+    #handle: fsPromises.FileHandle | null;
+    #buffer: Buffer;
+    #offset: number;
+    #eof: boolean;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.#handle = null;
+        this.#buffer = Buffer.alloc(0);
+        this.#offset = 0;
+        this.#eof = false;
+    }
+
+    async *records(): AsyncGenerator<PcapRecord> {
+        this.#handle = await fsPromises.open(this.filePath, "r");
+        try {
+            if (!(await this.#fill(4))) {
+                throw new Error("Capture file is empty");
+            }
+            const magic = this.#buffer.readUInt32BE(this.#offset);
+            if (magic === PCAPNG_SHB) {
+                yield* this.#readPcapng();
+            } else {
+                yield* this.#readPcap();
+            }
+        } finally {
+            await this.#handle.close();
+            this.#handle = null;
+        }
+    }
+
+    // Make sure at least `size` unread bytes are buffered. Returns false on EOF.
+    async #fill(size: number): Promise<boolean> {
+        while (this.#buffer.length - this.#offset < size) {
+            if (this.#eof) return false;
+            const chunk = Buffer.alloc(Math.max(READ_CHUNK_SIZE, size));
+            const { bytesRead } = await this.#handle.read(
+                chunk,
+                0,
+                chunk.length,
+                null,
+            );
+            if (bytesRead === 0) {
+                this.#eof = true;
+                return false;
+            }
+            this.#buffer = Buffer.concat([
+                this.#buffer.subarray(this.#offset),
+                chunk.subarray(0, bytesRead),
+            ]);
+            this.#offset = 0;
+        }
+        return true;
+    }
+
+    #take(size: number): Buffer {
+        const slice = this.#buffer.subarray(this.#offset, this.#offset + size);
+        this.#offset += size;
+        return slice;
+    }
+
+    async *#readPcap(): AsyncGenerator<PcapRecord> {
+        if (!(await this.#fill(24))) {
+            throw new Error("Truncated pcap global header");
+        }
+        const header = this.#take(24);
+        let littleEndian: boolean;
+        let nanoseconds: boolean;
+        const magicLE = header.readUInt32LE(0);
+        const magicBE = header.readUInt32BE(0);
+        if (magicLE === PCAP_MAGIC_MICRO || magicLE === PCAP_MAGIC_NANO) {
+            littleEndian = true;
+            nanoseconds = magicLE === PCAP_MAGIC_NANO;
+        } else if (
+            magicBE === PCAP_MAGIC_MICRO ||
+            magicBE === PCAP_MAGIC_NANO
+        ) {
+            littleEndian = false;
+            nanoseconds = magicBE === PCAP_MAGIC_NANO;
+        } else {
+            throw new Error(
+                `Unknown capture file format (magic 0x${magicBE.toString(16)})`,
+            );
+        }
+        const u32 = (buf: Buffer, off: number) =>
+            littleEndian ? buf.readUInt32LE(off) : buf.readUInt32BE(off);
+        const linkType = u32(header, 20) & 0x0fffffff;
+
+        while (await this.#fill(16)) {
+            const recordHeader = this.#take(16);
+            const tsSec = u32(recordHeader, 0);
+            const tsFrac = u32(recordHeader, 4);
+            const inclLen = u32(recordHeader, 8);
+            if (!(await this.#fill(inclLen))) break;
+            const data = Buffer.from(this.#take(inclLen));
+            yield {
+                timestamp:
+                    tsSec * 1000 + (nanoseconds ? tsFrac / 1e6 : tsFrac / 1e3),
+                linkType,
+                data,
+            };
+        }
+    }
+
+    async *#readPcapng(): AsyncGenerator<PcapRecord> {
+        let littleEndian = true;
+        let interfaces: PcapngInterface[] = [];
+
+        while (await this.#fill(12)) {
+            const blockType = this.#buffer.readUInt32LE(this.#offset);
+            if (blockType === PCAPNG_SHB) {
+                // The byte-order magic decides how the rest of the section is read
+                const bom = this.#buffer.readUInt32LE(this.#offset + 8);
+                littleEndian = bom === PCAPNG_BYTE_ORDER_MAGIC;
+                interfaces = [];
+            }
+            const u32 = (buf: Buffer, off: number) =>
+                littleEndian ? buf.readUInt32LE(off) : buf.readUInt32BE(off);
+            const u16 = (buf: Buffer, off: number) =>
+                littleEndian ? buf.readUInt16LE(off) : buf.readUInt16BE(off);
+
+            const type = u32(this.#buffer, this.#offset);
+            const totalLength = u32(this.#buffer, this.#offset + 4);
+            if (totalLength < 12 || totalLength % 4 !== 0) {
+                throw new Error(`Corrupt pcapng block length ${totalLength}`);
+            }
+            if (!(await this.#fill(totalLength))) break;
+            const block = this.#take(totalLength);
+            const body = block.subarray(8, totalLength - 4);
+
+            if (type === PCAPNG_IDB) {
+                interfaces.push({
+                    linkType: u16(body, 0),
+                    unitMs: this.#readTsResolution(body.subarray(8), u16),
+                });
+            } else if (type === PCAPNG_EPB || type === PCAPNG_OPB) {
+                const ifaceId =
+                    type === PCAPNG_EPB ? u32(body, 0) : u16(body, 0);
+                const iface = interfaces[ifaceId];
+                if (!iface) continue;
+                const tsHigh = u32(body, 4);
+                const tsLow = u32(body, 8);
+                const capLen = u32(body, 12);
+                yield {
+                    timestamp: (tsHigh * 0x100000000 + tsLow) * iface.unitMs,
+                    linkType: iface.linkType,
+                    data: Buffer.from(body.subarray(20, 20 + capLen)),
+                };
+            } else if (type === PCAPNG_SPB) {
+                // Simple packets carry no timestamp; they belong to interface 0
+                const iface = interfaces[0];
+                if (!iface) continue;
+                const origLen = u32(body, 0);
+                const capLen = Math.min(origLen, body.length - 4);
+                yield {
+                    timestamp: NaN,
+                    linkType: iface.linkType,
+                    data: Buffer.from(body.subarray(4, 4 + capLen)),
+                };
+            }
+        }
+    }
+
+    // Parse the if_tsresol option of an Interface Description Block.
+    #readTsResolution(
+        options: Buffer,
+        u16: (buf: Buffer, off: number) => number,
+    ): number {
+        let pos = 0;
+        while (pos + 4 <= options.length) {
+            const code = u16(options, pos);
+            const length = u16(options, pos + 2);
+            if (code === 0) break;
+            if (code === PCAPNG_OPT_IF_TSRESOL && length >= 1) {
+                const value = options[pos + 4];
+                const seconds =
+                    value & 0x80
+                        ? Math.pow(2, -(value & 0x7f))
+                        : Math.pow(10, -value);
+                return seconds * 1000;
+            }
+            pos += 4 + Math.ceil(length / 4) * 4;
+        }
+        return 0.001;
+    }
+}
+
+export default PcapReader;
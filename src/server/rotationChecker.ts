@@ -0,0 +1,302 @@
+import { promises as fsPromises } from "fs";
+import path from "path";
+import type {
+    RotationTemplate,
+    RotationDeviation,
+    RotationCheckResult,
+} from "../types";
+
+// Use user data path in production, current directory in development
+const USER_DATA_DIR =
+    process.env.NODE_ENV === "development"
+        ? process.cwd()
+        : process.env.USER_DATA_PATH;
+export const ROTATIONS_DIR = path.join(USER_DATA_DIR, "rotations");
+
+const DEFAULT_MAX_IDLE_MS = 2000;
+// Slack before a skill off cooldown counts as held back
+const COOLDOWN_GRACE_MS = 1000;
+const PENALTY: Record<RotationDeviation["type"], number> = {
+    missed: 5,
+    order: 3,
+    priority: 2,
+    idle: 1, // per second past maxIdleMs
+};
+
+// Cast log as saved in users/<uid>.json
+export interface RecordedRotation {
+    casts: { t: number; skillId: number; hits: number; damage: number }[];
+}
+
+function templateFileName(name: string): string {
+    return `${name.replace(/[\\/:*?"<>|]/g, "_")}.json`;
+}
+
+// Returns an error message, or null when the template is usable
+export function validateTemplate(template: any): string | null {
+    if (!template || typeof template !== "object") return "Missing template";
+    if (typeof template.name !== "string" || !template.name.trim())
+        return "Template name is required";
+    if (typeof template.profession !== "string" || !template.profession)
+        return "Template profession is required";
+    for (const key of ["sequence", "priority"]) {
+        const list = template[key];
+        if (
+            list !== undefined &&
+            (!Array.isArray(list) || !list.every(Number.isInteger))
+        )
+            return `${key} must be a list of skill ids`;
+    }
+    if (template.cooldowns !== undefined) {
+        const cooldowns = template.cooldowns;
+        if (
+            !cooldowns ||
+            typeof cooldowns !== "object" ||
+            Array.isArray(cooldowns)
+        )
+            return "cooldowns must map skill ids to seconds";
+        for (const [skillId, value] of Object.entries(cooldowns)) {
+            if (
+                !Number.isInteger(Number(skillId)) ||
+                typeof value !== "number" ||
+                value <= 0
+            )
+                return "cooldowns must map skill ids to seconds";
+        }
+    }
+    if (
+        template.maxIdleMs !== undefined &&
+        (typeof template.maxIdleMs !== "number" || template.maxIdleMs <= 0)
+    )
+        return "maxIdleMs must be a positive number";
+    return null;
+}
+
+export async function loadTemplates(): Promise<RotationTemplate[]> {
+    let files: string[];
+    try {
+        files = await fsPromises.readdir(ROTATIONS_DIR);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+    }
+    const templates: RotationTemplate[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+        try {
+            const template = JSON.parse(
+                await fsPromises.readFile(
+                    path.join(ROTATIONS_DIR, file),
+                    "utf8",
+                ),
+            );
+            if (!validateTemplate(template)) templates.push(template);
+        } catch {
+            // skip unreadable templates
+        }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: RotationTemplate): Promise<void> {
+    await fsPromises.mkdir(ROTATIONS_DIR, { recursive: true });
+    await fsPromises.writeFile(
+        path.join(ROTATIONS_DIR, templateFileName(template.name)),
+        JSON.stringify(template, null, 4),
+        "utf8",
+    );
+}
+
+export async function deleteTemplate(name: string): Promise<void> {
+    await fsPromises.unlink(path.join(ROTATIONS_DIR, templateFileName(name)));
+}
+
+// Subclass templates win over class templates
+export function findTemplate(
+    templates: RotationTemplate[],
+    profession: string,
+    name?: string,
+): RotationTemplate | null {
+    if (name) return templates.find((t) => t.name === name) ?? null;
+    const mainProfession = profession.split("-")[0];
+    return (
+        templates.find((t) => t.profession === profession) ??
+        templates.find((t) => t.profession === mainProfession) ??
+        null
+    );
+}
+
+// Longest common subsequence of a and b, as matched index pairs
+function matchSequence(a: number[], b: number[]): [number, number][] {
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+        new Array(b.length + 1).fill(0),
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const pairs: [number, number][] = [];
+    for (let i = 0, j = 0; i < a.length && j < b.length;) {
+        if (a[i] === b[j]) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+export function checkRotation(
+    rotation: RecordedRotation,
+    template: RotationTemplate,
+    durationMs: number,
+    isDummy: boolean = false,
+): RotationCheckResult {
+    const casts = [...rotation.casts].sort((a, b) => a.t - b.t);
+    const deviations: RotationDeviation[] = [];
+    const sequence = template.sequence ?? [];
+    const cooldowns = template.cooldowns ?? {};
+    const end = Math.max(durationMs, casts[casts.length - 1]?.t ?? 0);
+
+    // Opener: align the first casts of sequence skills with the template
+    if (sequence.length > 0) {
+        const inSequence = new Set(sequence);
+        const opener = casts
+            .filter((cast) => inSequence.has(cast.skillId))
+            .slice(0, sequence.length);
+        const pairs = matchSequence(
+            sequence,
+            opener.map((cast) => cast.skillId),
+        );
+        const matchedExpected = new Set(pairs.map(([i]) => i));
+        const matchedCast = new Set(pairs.map(([, j]) => j));
+        opener.forEach((cast, j) => {
+            if (matchedCast.has(j)) return;
+            deviations.push({
+                type: "order",
+                t: cast.t,
+                skillId: cast.skillId,
+                expectedSkillId: sequence[j],
+            });
+        });
+        const castInOpener = new Set(opener.map((cast) => cast.skillId));
+        sequence.forEach((skillId, i) => {
+            if (matchedExpected.has(i) || castInOpener.has(skillId)) return;
+            deviations.push({
+                type: "missed",
+                t: opener[opener.length - 1]?.t ?? 0,
+                skillId,
+                count: 1,
+            });
+        });
+    }
+
+    // Cooldowns: every full cooldown a skill sat ready is a missed cast.
+    // Skills in the opener become ready at their first cast.
+    const readyAt = new Map<number, number>();
+    for (const [id, seconds] of Object.entries(cooldowns)) {
+        const skillId = Number(id);
+        const cooldownMs = seconds * 1000;
+        const times = casts
+            .filter((cast) => cast.skillId === skillId)
+            .map((cast) => cast.t);
+        let available =
+            sequence.includes(skillId) && times.length > 0 ? times[0] : 0;
+        readyAt.set(skillId, available);
+        for (const t of [...times, end]) {
+            const missed = Math.floor((t - available) / cooldownMs);
+            if (missed > 0) {
+                deviations.push({
+                    type: "missed",
+                    t: available,
+                    skillId,
+                    count: missed,
+                });
+            }
+            available = Math.max(available, t + cooldownMs);
+        }
+    }
+
+    // Priority: a lower skill cast while a higher one was ready
+    const priority = (template.priority ?? []).filter(
+        (id) => cooldowns[id] !== undefined,
+    );
+    if (priority.length > 1) {
+        for (const cast of casts) {
+            const rank = priority.indexOf(cast.skillId);
+            if (rank > 0) {
+                const held = priority
+                    .slice(0, rank)
+                    .find(
+                        (id) => cast.t >= readyAt.get(id)! + COOLDOWN_GRACE_MS,
+                    );
+                if (held !== undefined) {
+                    deviations.push({
+                        type: "priority",
+                        t: cast.t,
+                        skillId: cast.skillId,
+                        expectedSkillId: held,
+                    });
+                }
+            }
+            if (rank >= 0) {
+                readyAt.set(
+                    cast.skillId,
+                    cast.t + cooldowns[cast.skillId] * 1000,
+                );
+            }
+        }
+    }
+
+    // Idle gaps between consecutive casts
+    const maxIdleMs = template.maxIdleMs ?? DEFAULT_MAX_IDLE_MS;
+    for (let i = 1; i < casts.length; i++) {
+        const gap = casts[i].t - casts[i - 1].t;
+        if (gap > maxIdleMs) {
+            deviations.push({
+                type: "idle",
+                t: casts[i - 1].t,
+                durationMs: gap,
+            });
+        }
+    }
+
+    const counts: RotationCheckResult["counts"] = {
+        missed: 0,
+        order: 0,
+        priority: 0,
+        idle: 0,
+    };
+    let penalty = 0;
+    for (const deviation of deviations) {
+        if (deviation.type === "missed") {
+            counts.missed += deviation.count ?? 1;
+            penalty += PENALTY.missed * (deviation.count ?? 1);
+        } else if (deviation.type === "idle") {
+            counts.idle++;
+            penalty +=
+                (PENALTY.idle * (deviation.durationMs! - maxIdleMs)) / 1000;
+        } else {
+            counts[deviation.type]++;
+            penalty += PENALTY[deviation.type];
+        }
+    }
+
+    return {
+        template: template.name,
+        profession: template.profession,
+        score: Math.max(0, Math.round(100 - penalty)),
+        casts: casts.length,
+        durationMs: end,
+        isDummy,
+        counts,
+        deviations: deviations.sort((a, b) => a.t - b.t),
+    };
+}
@@ -0,0 +1,319 @@
+import fs, { promises as fsPromises } from "fs";
+import path from "path";
+import Long from "long";
+import { UserDataManager } from "./dataManager";
+import { nowMs, runAt } from "../utils/clock";
+import type { Logger } from "winston";
+import type { GlobalSettings } from "../types";
+import type PacketProcessor from "../../algo/packet";
+
+// Use user data path in production, current directory in development
+const USER_DATA_DIR =
+    process.env.NODE_ENV === "development"
+        ? process.cwd()
+        : process.env.USER_DATA_PATH;
+export const SESSIONS_DIR = path.join(USER_DATA_DIR, "sessions");
+
+/*
+ * Session capture format (all integers big-endian):
+ *   header: "BPSRSESS" | u16 version | u16 reserved | f64 createdAt
+ *   record: u8 kind | f64 timestamp (ms) | u32 length | payload
+ * Frames are the reassembled server-to-client application frames exactly as
+ * handed to PacketProcessor.processPacket.
+ */
+const SESSION_MAGIC = Buffer.from("BPSRSESS", "ascii");
+const SESSION_VERSION = 1;
+const HEADER_SIZE = 20;
+const RECORD_HEADER_SIZE = 13;
+
+const READ_CHUNK_SIZE = 1024 * 1024;
+// Frames rebuilt per event-loop turn while loading, so the API and live
+// capture keep running
+const FRAMES_PER_TURN = 500;
+
+const RecordKind = {
+    ServerEndpoint: 1,
+    LocalPlayerUuid: 2,
+    Frame: 3,
+} as const;
+
+interface SessionRecord {
+    kind: number;
+    timestamp: number;
+    payload: Buffer;
+}
+
+export interface LoadedSession {
+    filePath: string;
+    userDataManager: UserDataManager;
+    serverEndpoint: string;
+    localPlayerUuid: string;
+    frames: number;
+    startTime: number;
+    endTime: number;
+}
+
+export class SessionRecorder {
+    public filePath: string;
+    public frames: number;
+    #stream: fs.WriteStream;
+    #serverEndpoint: string;
+    #localPlayerUuid: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.frames = 0;
+        this.#serverEndpoint = "";
+        this.#localPlayerUuid = "0";
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        this.#stream = fs.createWriteStream(filePath);
+
+        const header = Buffer.alloc(HEADER_SIZE);
+        SESSION_MAGIC.copy(header, 0);
+        header.writeUInt16BE(SESSION_VERSION, 8);
+        header.writeDoubleBE(nowMs(), 12);
+        this.#stream.write(header);
+    }
+
+    static createInSessionsDir(): SessionRecorder {
+        return new SessionRecorder(
+            path.join(SESSIONS_DIR, `${Date.now()}.bpsr`),
+        );
+    }
+
+    setServerEndpoint(endpoint: string): void {
+        if (!endpoint || endpoint === this.#serverEndpoint) return;
+        this.#serverEndpoint = endpoint;
+        this.#writeRecord(
+            RecordKind.ServerEndpoint,
+            Buffer.from(endpoint, "utf8"),
+        );
+    }
+
+    setLocalPlayerUuid(uuid: Long | string): void {
+        const value = uuid.toString();
+        if (value === "0" || value === this.#localPlayerUuid) return;
+        this.#localPlayerUuid = value;
+        this.#writeRecord(
+            RecordKind.LocalPlayerUuid,
+            Buffer.from(value, "utf8"),
+        );
+    }
+
+    writeFrame(frame: Buffer): void {
+        this.#writeRecord(RecordKind.Frame, frame);
+        this.frames++;
+    }
+
+    #writeRecord(kind: number, payload: Buffer): void {
+        const header = Buffer.alloc(RECORD_HEADER_SIZE);
+        header.writeUInt8(kind, 0);
+        header.writeDoubleBE(nowMs(), 1);
+        header.writeUInt32BE(payload.length, 9);
+        this.#stream.write(Buffer.concat([header, payload]));
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.#stream.end(() => resolve()));
+    }
+}
+
+/**
+ * Reads a session capture file in chunks. The header is checked by open();
+ * records() then yields the records in file order. A truncated trailing
+ * record means the recorder was interrupted and ends the file.
+ */
+class SessionReader {
+    public filePath: string;
+    public createdAt: number;
+    #handle: fsPromises.FileHandle | null;
+    #buffer: Buffer;
+    #offset: number;
+    #eof: boolean;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.createdAt = 0;
+        this.#handle = null;
+        this.#buffer = Buffer.alloc(0);
+        this.#offset = 0;
+        this.#eof = false;
+    }
+
+    async open(): Promise<void> {
+        this.#handle = await fsPromises.open(this.filePath, "r");
+        try {
+            if (!(await this.#fill(HEADER_SIZE))) {
+                throw new Error("Not a session capture file");
+            }
+            const header = this.#take(HEADER_SIZE);
+            if (
+                Buffer.compare(
+                    header.subarray(0, SESSION_MAGIC.length),
+                    SESSION_MAGIC,
+                )
+            ) {
+                throw new Error("Not a session capture file");
+            }
+            const version = header.readUInt16BE(8);
+            if (version > SESSION_VERSION) {
+                throw new Error(
+                    `Unsupported session capture version ${version}`,
+                );
+            }
+            this.createdAt = header.readDoubleBE(12);
+        } catch (e) {
+            await this.close();
+            throw e;
+        }
+    }
+
+    async *records(): AsyncGenerator<SessionRecord> {
+        while (await this.#fill(RECORD_HEADER_SIZE)) {
+            const header = this.#take(RECORD_HEADER_SIZE);
+            const length = header.readUInt32BE(9);
+            if (!(await this.#fill(length))) return;
+            yield {
+                kind: header.readUInt8(0),
+                timestamp: header.readDoubleBE(1),
+                payload: this.#take(length),
+            };
+        }
+    }
+
+    async close(): Promise<void> {
+        await this.#handle?.close();
+        this.#handle = null;
+    }
+
+    // Make sure at least `size` unread bytes are buffered. Returns false on EOF.
+    async #fill(size: number): Promise<boolean> {
+        while (this.#buffer.length - this.#offset < size) {
+            if (this.#eof) return false;
+            const chunk = Buffer.alloc(Math.max(READ_CHUNK_SIZE, size));
+            const { bytesRead } = await this.#handle.read(
+                chunk,
+                0,
+                chunk.length,
+                null,
+            );
+            if (bytesRead === 0) {
+                this.#eof = true;
+                return false;
+            }
+            this.#buffer = Buffer.concat([
+                this.#buffer.subarray(this.#offset),
+                chunk.subarray(0, bytesRead),
+            ]);
+            this.#offset = 0;
+        }
+        return true;
+    }
+
+    #take(size: number): Buffer {
+        const slice = this.#buffer.subarray(this.#offset, this.#offset + size);
+        this.#offset += size;
+        return slice;
+    }
+}
+
+// Rebuild a recorded session into a fresh UserDataManager. Each record is
+// applied with the clock pinned to its recorded timestamp, and the loader
+// yields every few hundred frames so live capture and the API keep running.
+export async function loadSession(
+    filePath: string,
+    PacketProcessorClass: typeof PacketProcessor,
+    logger: Logger,
+    globalSettings: GlobalSettings,
+    options: { saveToHistory?: boolean } = {},
+): Promise<LoadedSession> {
+    // Session-level settings: never auto-clear or write fight logs while rebuilding
+    const userDataManager = new UserDataManager(logger, {
+        ...globalSettings,
+        autoClearOnTimeout: false,
+        enableFightLog: false,
+        enableHistorySave: !!options.saveToHistory,
+    });
+    await userDataManager.initialize();
+    const processor = new PacketProcessorClass({
+        logger,
+        userDataManager,
+    });
+
+    const reader = new SessionReader(filePath);
+    await reader.open();
+    const createdAt = reader.createdAt;
+    const session: LoadedSession = {
+        filePath,
+        userDataManager,
+        serverEndpoint: "",
+        localPlayerUuid: "0",
+        frames: 0,
+        startTime: createdAt,
+        endTime: createdAt,
+    };
+
+    // The local player UUID is shared with live capture, so the session's
+    // UUID is only set while its frames are being processed
+    let liveUuid = processor.getLocalPlayerUuid();
+    let sessionUuid = Long.ZERO;
+    let framesThisTurn = 0;
+
+    const applyRecord = (record: SessionRecord) => {
+        const { kind, timestamp, payload } = record;
+        switch (kind) {
+            case RecordKind.ServerEndpoint:
+                session.serverEndpoint = payload.toString("utf8");
+                userDataManager.refreshEnemyCache();
+                break;
+            case RecordKind.LocalPlayerUuid:
+                session.localPlayerUuid = payload.toString("utf8");
+                sessionUuid = Long.fromString(session.localPlayerUuid);
+                processor.setLocalPlayerUuid(sessionUuid);
+                break;
+            case RecordKind.Frame:
+                if (session.frames === 0) {
+                    userDataManager.startTime = timestamp;
+                    session.startTime = timestamp;
+                }
+                // Let timeouts and kills split the session into encounters
+                userDataManager.encounters.tick();
+                processor.processPacket(Buffer.from(payload));
+                session.frames++;
+                framesThisTurn++;
+                break;
+            default:
+                break;
+        }
+        session.endTime = timestamp;
+    };
+
+    try {
+        processor.setLocalPlayerUuid(sessionUuid, false);
+        for await (const record of reader.records()) {
+            runAt(record.timestamp, () => applyRecord(record));
+            if (framesThisTurn >= FRAMES_PER_TURN) {
+                framesThisTurn = 0;
+                sessionUuid = processor.getLocalPlayerUuid();
+                processor.setLocalPlayerUuid(liveUuid, false);
+                await new Promise((r) => setImmediate(r));
+                liveUuid = processor.getLocalPlayerUuid();
+                processor.setLocalPlayerUuid(sessionUuid, false);
+            }
+        }
+        runAt(session.endTime, () => {
+            userDataManager.updateAllRealtimeDps();
+            // Stores the last encounter (when saving to history) at its capture time
+            userDataManager.encounters.endEncounter("capture-end");
+        });
+    } finally {
+        processor.setLocalPlayerUuid(liveUuid, false);
+        await reader.close();
+    }
+
+    logger.info(
+        `Loaded session ${filePath}: ${session.frames} frames, server ${session.serverEndpoint || "unknown"}`,
+    );
+    return session;
+}
@@ -3,15 +3,132 @@ import { Readable } from "stream";
 import path from "path";
 import fs from "fs";
 import { spawn } from "child_process";
-import findDefaultNetworkDevice from "../../algo/netInterfaceUtil";
+import findDefaultNetworkDevice, {
+    findBusiestDevice,
+} from "../../algo/netInterfaceUtil";
 import { Lock } from "./dataManager";
 import type { UserDataManager } from "./dataManager";
+import PcapReader from "./pcapReader";
+import {
+    decodeIpPacket,
+    formatEndpoint,
+    linkTypeFromCap,
+    linkTypeFromPcap,
+    reassembledPayload,
+} from "./ipDecoder";
+import type { IpPacket, LinkType } from "./ipDecoder";
+import { SessionRecorder } from "./sessionRecorder";
+import { TcpReassembler } from "./tcpReassembler";
+import { ParserThread, PARSER_WORKER_PATH } from "./parserThread";
+import { nowMs, setTimeSource } from "../utils/clock";
 import type { Logger } from "winston";
-import type { GlobalSettings } from "../types";
+import type {
+    CaptureDeviceStatus,
+    CaptureHealth,
+    GlobalSettings,
+    ReplayOptions,
+    ReplayStatus,
+    TcpReassemblyStats,
+} from "../types";
 import type PacketProcessor from "../../algo/packet";
 
+// Span the capture rates in getCaptureHealth() are averaged over
+const RATE_WINDOW_MS = 5000;
+
+// "tcp" alone misses IPv6 packets with extension headers before TCP
+const CAPTURE_FILTER = "tcp or ip6 protochain tcp";
+const CAPTURE_BUFFER_SIZE = 10 * 1024 * 1024;
+// A packet seen on another adapter this recently is a duplicate
+const DEDUP_WINDOW_MS = 2000;
+// Silence on the adapter carrying the game that triggers a failover
+const FAILOVER_SILENCE_MS = 10000;
+const FAILOVER_RETRY_MS = 15000;
+// After this long the game is probably closed; stop looking
+const FAILOVER_GIVE_UP_MS = 120000;
+
+// Use user data path in production, current directory in development
+const USER_DATA_DIR =
+    process.env.NODE_ENV === "development"
+        ? process.cwd()
+        : process.env.USER_DATA_PATH;
+// Captures that can be replayed through the API. The command line accepts
+// any path.
+export const REPLAYS_DIR = path.join(USER_DATA_DIR, "replays");
+
+interface CaptureDevice extends CaptureDeviceStatus {
+    linkType: LinkType;
+    cap: cap.Cap;
+}
+
+interface QueuedPacket {
+    data: Buffer;
+    capture: CaptureDevice;
+}
+
+interface RateSample {
+    time: number;
+    packets: number;
+    bytes: number;
+}
+
+// Parses a replay speed: a multiplier above 0, or "max" (returned as 0).
+// Returns null for anything else.
+export function parseReplaySpeed(value: unknown): number | null {
+    if (value === "max") return 0;
+    const speed =
+        typeof value === "number"
+            ? value
+            : typeof value === "string" && value.trim() !== ""
+              ? Number(value)
+              : NaN;
+    return Number.isFinite(speed) && speed > 0 ? speed : null;
+}
+
+function emptyTcpStats(): TcpReassemblyStats {
+    return {
+        segments: 0,
+        bytes: 0,
+        frames: 0,
+        retransmits: 0,
+        outOfOrder: 0,
+        gaps: 0,
+        droppedBytes: 0,
+        resyncs: 0,
+        pendingSegments: 0,
+        pendingBytes: 0,
+        lastGapAt: null,
+    };
+}
+
+// Index of a capture device given by index or name
+function resolveDevice(
+    devices: cap.DeviceInfo[],
+    entry: number | string,
+): number | undefined {
+    const index =
+        typeof entry === "number"
+            ? entry
+            : /^\d+$/.test(entry)
+              ? Number(entry)
+              : devices.findIndex((d) => d.name === entry);
+    return devices[index] ? index : undefined;
+}
+
+// Adds the counters of one stream to the running totals
+function addTcpStats(totals: TcpReassemblyStats, stats: TcpReassemblyStats) {
+    totals.segments += stats.segments;
+    totals.bytes += stats.bytes;
+    totals.frames += stats.frames;
+    totals.retransmits += stats.retransmits;
+    totals.outOfOrder += stats.outOfOrder;
+    totals.gaps += stats.gaps;
+    totals.droppedBytes += stats.droppedBytes;
+    totals.resyncs += stats.resyncs;
+    totals.lastGapAt = stats.lastGapAt ?? totals.lastGapAt;
+}
+
 const decoders = cap.decoders;
-const PROTOCOL = decoders.PROTOCOL;
+const IPPROTO_TCP = decoders.PROTOCOL.IP.TCP;
 const Cap = cap.Cap;
 
 const NPCAP_INSTALLER_PATH = path.join(
@@ -75,27 +192,39 @@ async function checkAndInstallNpcap(logger: Logger) {
 }
 
 class Sniffer {
-    #data: Buffer;
     public logger: Logger;
     public userDataManager: UserDataManager;
     public globalSettings: GlobalSettings;
     public current_server: string;
-    public tcp_next_seq: number;
-    public tcp_cache: Map<number, any>;
-    public tcp_last_time: number;
-    public lastUnexpectedSeqLogAt: number;
-    public unexpectedSeqCount: number;
+    // Server-to-client stream of current_server; null until it is detected
+    public tcpStream: TcpReassembler | null;
     public tcp_lock: Lock;
     public fragmentIpCache: Map<string, any>;
     public FRAGMENT_TIMEOUT: number;
-    public eth_queue: any[];
-    public capInstance: cap.Cap | null;
-    public PacketProcessor: PacketProcessor | null;
+    public eth_queue: QueuedPacket[];
+    // Decodes reassembled frames, in a worker thread when available
+    public PacketProcessor: PacketProcessor | ParserThread | null;
     public isPaused: boolean;
+    public replayStatus: ReplayStatus | null;
     #PacketProcessorInstance?: typeof PacketProcessor;
 
     public running: boolean;
+    #packets: number;
+    #bytes: number;
+    #lastPacketAt: number | null;
+    #rateSamples: RateSample[];
+    // Counters of streams replaced since the sniffer was created
+    #retiredTcpStats: TcpReassemblyStats;
+    #captures: CaptureDevice[];
+    // Recent packets by content, for dropping copies from other adapters
+    #seenPackets: Map<string, { device: number; time: number }>;
+    #duplicates: number;
+    #lastGameTrafficAt: number | null;
+    #lastFailoverAt: number;
+    #failingOver: boolean;
+    #failovers: number;
     #fragmentCleanerInterval: NodeJS.Timeout | null;
+    #sessionRecorder: SessionRecorder | null;
 
     constructor(
         logger: Logger,
@@ -106,21 +235,29 @@ class Sniffer {
         this.userDataManager = userDataManager;
         this.globalSettings = globalSettings;
         this.current_server = "";
-        this.#data = Buffer.alloc(0);
-        this.tcp_next_seq = -1;
-        this.tcp_cache = new Map();
-        this.tcp_last_time = 0;
-        this.lastUnexpectedSeqLogAt = 0;
-        this.unexpectedSeqCount = 0;
+        this.tcpStream = null;
         this.tcp_lock = new Lock();
         this.fragmentIpCache = new Map();
         this.FRAGMENT_TIMEOUT = 30000;
         this.eth_queue = [];
-        this.capInstance = null;
         this.PacketProcessor = null;
         this.isPaused = false;
+        this.replayStatus = null;
         this.running = false;
+        this.#packets = 0;
+        this.#bytes = 0;
+        this.#lastPacketAt = null;
+        this.#rateSamples = [];
+        this.#retiredTcpStats = emptyTcpStats();
+        this.#captures = [];
+        this.#seenPackets = new Map();
+        this.#duplicates = 0;
+        this.#lastGameTrafficAt = null;
+        this.#lastFailoverAt = 0;
+        this.#failingOver = false;
+        this.#failovers = 0;
         this.#fragmentCleanerInterval = null;
+        this.#sessionRecorder = null;
     }
 
     setPacketProcessor(instance: typeof PacketProcessor) {
@@ -142,9 +279,6 @@ class Sniffer {
                 this.clearTcpCache();
                 this.fragmentIpCache.clear();
                 this.current_server = "";
-                this.tcp_cache.clear && this.tcp_cache.clear();
-                this.tcp_next_seq = -1;
-                this.tcp_last_time = 0;
                 // Refresh enemy cache to ensure state is consistent
                 try {
                     this.userDataManager &&
@@ -168,93 +302,155 @@ class Sniffer {
     }
 
     clearTcpCache() {
-        this.#data = Buffer.alloc(0);
-        this.tcp_next_seq = -1;
-        this.tcp_last_time = 0;
-        this.tcp_cache.clear();
+        this.#retireTcpStream();
+    }
+
+    // Reassembly counters summed over every server stream so far; the
+    // pending figures are those of the current stream
+    getTcpStats(): TcpReassemblyStats {
+        const totals = { ...this.#retiredTcpStats };
+        const current = this.tcpStream?.stats;
+        if (current) {
+            addTcpStats(totals, current);
+            totals.pendingSegments = current.pendingSegments;
+            totals.pendingBytes = current.pendingBytes;
+        }
+        return totals;
     }
 
-    getTCPPacket(frameBuffer: Buffer, ethOffset: number): Buffer | null {
-        const ipPacket = decoders.IPV4(frameBuffer, ethOffset);
-        const ipId = ipPacket.info.id;
-        const isFragment = (ipPacket.info.flags & 0x1) !== 0;
-        const key = `${ipId}-${ipPacket.info.srcaddr}-${ipPacket.info.dstaddr}-${ipPacket.info.protocol}`;
+    getCaptureHealth(): CaptureHealth {
         const now = Date.now();
+        const oldest = this.#rateSamples[0];
+        const seconds = oldest ? (now - oldest.time) / 1000 : 0;
+        return {
+            running: this.running,
+            paused: this.isPaused,
+            replaying: !!this.replayStatus?.running,
+            server: this.current_server || null,
+            packets: this.#packets,
+            bytes: this.#bytes,
+            packetsPerSecond:
+                seconds > 0 ? (this.#packets - oldest.packets) / seconds : 0,
+            bytesPerSecond:
+                seconds > 0 ? (this.#bytes - oldest.bytes) / seconds : 0,
+            lastPacketAt: this.#lastPacketAt,
+            tcp: this.getTcpStats(),
+            parser: this.PacketProcessor?.stats ?? {
+                decodeErrors: 0,
+                zstdFailures: 0,
+                unknownMethodIds: {},
+            },
+            lastCombatEventAt: this.userDataManager.encounters.lastEventAt,
+            devices: this.#captures.map(({ cap, ...status }) => status),
+            duplicates: this.#duplicates,
+            failovers: this.#failovers,
+        };
+    }
 
-        if (isFragment || ipPacket.info.fragoffset > 0) {
-            if (!this.fragmentIpCache.has(key)) {
-                this.fragmentIpCache.set(key, {
-                    fragments: [],
-                    timestamp: now,
-                });
-            }
+    // Starts reassembly right after the packet that identified the server
+    #startTcpStream(seqno: number, length: number) {
+        this.#retireTcpStream();
+        this.tcpStream = new TcpReassembler((seqno + length) >>> 0, nowMs());
+    }
 
-            const cacheEntry = this.fragmentIpCache.get(key);
-            const ipBuffer = Buffer.from(frameBuffer.subarray(ethOffset));
-            cacheEntry.fragments.push(ipBuffer);
-            cacheEntry.timestamp = now;
+    #retireTcpStream() {
+        const stats = this.tcpStream?.stats;
+        this.tcpStream = null;
+        if (stats) addTcpStats(this.#retiredTcpStats, stats);
+    }
 
-            if (isFragment) {
-                return null;
-            }
+    #countPacket(length: number) {
+        const now = Date.now();
+        this.#packets++;
+        this.#bytes += length;
+        this.#lastPacketAt = now;
 
-            const fragments = cacheEntry.fragments;
-            if (!fragments) {
-                this.logger.error(`Can't find fragments for ${key}`);
-                return null;
-            }
+        const samples = this.#rateSamples;
+        const last = samples[samples.length - 1];
+        if (!last || now - last.time >= 1000) {
+            samples.push({
+                time: now,
+                packets: this.#packets,
+                bytes: this.#bytes,
+            });
+        }
+        while (samples.length > 1 && now - samples[1].time >= RATE_WINDOW_MS) {
+            samples.shift();
+        }
+    }
 
-            let totalLength = 0;
-            const fragmentData = [];
+    // Returns the TCP segment in an IP packet, reassembling IP fragments.
+    // Returns null while fragments are still missing.
+    getTCPPacket(ipPacket: IpPacket): Buffer | null {
+        const fragment = ipPacket.fragment;
+        if (!fragment) {
+            return ipPacket.protocol === IPPROTO_TCP
+                ? Buffer.from(ipPacket.payload)
+                : null;
+        }
 
-            for (const buffer of fragments) {
-                const ip = decoders.IPV4(buffer);
-                const fragmentOffset = ip.info.fragoffset * 8;
-                const payloadLength = ip.info.totallen - ip.hdrlen;
-                const payload = Buffer.from(
-                    buffer.subarray(ip.offset, ip.offset + payloadLength),
-                );
+        const key = `${fragment.id}-${ipPacket.srcaddr}-${ipPacket.dstaddr}-${ipPacket.protocol}`;
+        const now = Date.now();
 
-                fragmentData.push({
-                    offset: fragmentOffset,
-                    payload: payload,
-                });
+        if (!this.fragmentIpCache.has(key)) {
+            this.fragmentIpCache.set(key, {
+                fragments: [],
+                timestamp: now,
+            });
+        }
 
-                const endOffset = fragmentOffset + payloadLength;
-                if (endOffset > totalLength) {
-                    totalLength = endOffset;
-                }
-            }
+        const cacheEntry = this.fragmentIpCache.get(key);
+        cacheEntry.fragments.push({
+            offset: fragment.offset,
+            payload: Buffer.from(ipPacket.payload),
+        });
+        cacheEntry.timestamp = now;
 
-            const fullPayload = Buffer.alloc(totalLength);
-            for (const fragment of fragmentData) {
-                fragment.payload.copy(fullPayload, fragment.offset);
-            }
+        if (fragment.more) {
+            return null;
+        }
 
-            this.fragmentIpCache.delete(key);
-            return fullPayload;
+        let totalLength = 0;
+        for (const { offset, payload } of cacheEntry.fragments) {
+            totalLength = Math.max(totalLength, offset + payload.length);
         }
 
-        return Buffer.from(
-            frameBuffer.subarray(
-                ipPacket.offset,
-                ipPacket.offset + (ipPacket.info.totallen - ipPacket.hdrlen),
-            ),
-        );
-    }
+        const fullPayload = Buffer.alloc(totalLength);
+        for (const { offset, payload } of cacheEntry.fragments) {
+            payload.copy(fullPayload, offset);
+        }
 
-    async processEthPacket(frameBuffer: Buffer) {
-        if (this.isPaused) return; // No procesar paquetes si está pausado
+        this.fragmentIpCache.delete(key);
 
-        var ethPacket = decoders.Ethernet(frameBuffer);
+        const upper = reassembledPayload(ipPacket, fullPayload);
+        return upper?.protocol === IPPROTO_TCP ? upper.payload : null;
+    }
 
-        if (ethPacket.info.type !== PROTOCOL.ETHERNET.IPV4) return;
+    async processPacket(
+        frameBuffer: Buffer,
+        linkType: LinkType = "ETHERNET",
+        capture: CaptureDevice | null = null,
+    ) {
+        if (this.isPaused) return; // No procesar paquetes si está pausado
+        this.#countPacket(frameBuffer.length);
+        if (capture) {
+            capture.packets++;
+            capture.lastPacketAt = this.#lastPacketAt;
+        }
 
-        const ipPacket = decoders.IPV4(frameBuffer, ethPacket.offset);
-        const srcaddr = ipPacket.info.srcaddr;
-        const dstaddr = ipPacket.info.dstaddr;
+        const ipPacket = decodeIpPacket(frameBuffer, linkType);
+        if (!ipPacket) return;
+        if (
+            capture &&
+            this.#captures.length > 1 &&
+            this.#isDuplicate(ipPacket, capture)
+        ) {
+            return;
+        }
+        const srcaddr = ipPacket.srcaddr;
+        const dstaddr = ipPacket.dstaddr;
 
-        const tcpBuffer = this.getTCPPacket(frameBuffer, ethPacket.offset);
+        const tcpBuffer = this.getTCPPacket(ipPacket);
         if (tcpBuffer === null) return;
         const tcpPacket = decoders.TCP(tcpBuffer);
 
@@ -263,7 +459,9 @@ class Sniffer {
         const srcport = tcpPacket.info.srcport;
         const dstport = tcpPacket.info.dstport;
         const src_server =
-            srcaddr + ":" + srcport + " -> " + dstaddr + ":" + dstport;
+            formatEndpoint(srcaddr, srcport) +
+            " -> " +
+            formatEndpoint(dstaddr, dstport);
 
         await this.tcp_lock.acquire();
         try {
@@ -293,44 +491,12 @@ class Sniffer {
                                 try {
                                     if (this.current_server !== src_server) {
                                         this.current_server = src_server;
-                                        this.clearTcpCache();
-                                        this.tcp_next_seq =
-                                            tcpPacket.info.seqno + buf.length;
-                                        this.userDataManager.refreshEnemyCache();
-                                        if (
-                                            this.globalSettings
-                                                .autoClearOnServerChange &&
-                                            this.userDataManager.lastLogTime !==
-                                                0 &&
-                                            this.userDataManager.users.size !==
-                                                0
-                                        ) {
-                                            const lp =
-                                                this.globalSettings
-                                                    .lastPausedAt || 0;
-                                            const lr =
-                                                this.globalSettings
-                                                    .lastResumedAt || 0;
-                                            const wasPausedThenResumed =
-                                                lp > 0 && lr > lp;
-                                            if (!wasPausedThenResumed) {
-                                                this.userDataManager.clearAll();
-                                                console.log(
-                                                    "Server changed, statistics cleared!",
-                                                );
-                                            } else {
-                                                console.log(
-                                                    "Server changed detected but skip clear because pause->resume was observed.",
-                                                );
-                                            }
-
-                                            try {
-                                                this.globalSettings.lastPausedAt =
-                                                    null;
-                                                this.globalSettings.lastResumedAt =
-                                                    null;
-                                            } catch (e) {}
-                                        }
+                                        this.#startTcpStream(
+                                            tcpPacket.info.seqno,
+                                            buf.length,
+                                        );
+                                        this.#handleServerChange();
+                                        this.#markGameTraffic(capture);
                                         console.log(
                                             "Game server detected. Measuring DPS...",
                                         );
@@ -357,39 +523,12 @@ class Sniffer {
                         ) {
                             if (this.current_server !== src_server) {
                                 this.current_server = src_server;
-                                this.clearTcpCache();
-                                this.tcp_next_seq =
-                                    tcpPacket.info.seqno + buf.length;
-                                this.userDataManager.refreshEnemyCache();
-                                if (
-                                    this.globalSettings
-                                        .autoClearOnServerChange &&
-                                    this.userDataManager.lastLogTime !== 0 &&
-                                    this.userDataManager.users.size !== 0
-                                ) {
-                                    const lp =
-                                        this.globalSettings.lastPausedAt || 0;
-                                    const lr =
-                                        this.globalSettings.lastResumedAt || 0;
-                                    const wasPausedThenResumed =
-                                        lp > 0 && lr > lp;
-                                    if (!wasPausedThenResumed) {
-                                        this.userDataManager.clearAll();
-                                        console.log(
-                                            "Server changed, statistics cleared!",
-                                        );
-                                    } else {
-                                        console.log(
-                                            "Server changed detected but skip clear because pause->resume was observed.",
-                                        );
-                                    }
-                                    // Reset pause/resume markers so they don't affect future checks
-                                    try {
-                                        this.globalSettings.lastPausedAt = null;
-                                        this.globalSettings.lastResumedAt =
-                                            null;
-                                    } catch (e) {}
-                                }
+                                this.#startTcpStream(
+                                    tcpPacket.info.seqno,
+                                    buf.length,
+                                );
+                                this.#handleServerChange();
+                                this.#markGameTraffic(capture);
                                 console.log(
                                     "Game server detected by login packet. Measuring DPS...",
                                 );
@@ -400,108 +539,95 @@ class Sniffer {
                 return;
             }
 
-            if (this.tcp_next_seq === -1) {
-                // Rate-limit this noisy error to once every 5 seconds
-                const now = Date.now();
-                if (now - this.lastUnexpectedSeqLogAt > 5000) {
-                    this.logger.error(
-                        "Unexpected TCP capture error! tcp_next_seq is -1",
-                    );
-                    this.lastUnexpectedSeqLogAt = now;
-                    this.unexpectedSeqCount = 0;
-                } else {
-                    this.unexpectedSeqCount++;
-                    if (this.unexpectedSeqCount % 50 === 0) {
-                        this.logger.warn(
-                            `Repeated tcp_next_seq -1 occurrences: ${this.unexpectedSeqCount}`,
-                        );
-                    }
-                }
+            this.#markGameTraffic(capture);
+            const stream = this.tcpStream;
+            if (!stream) return;
+            const stats = stream.stats;
+            const gapsBefore = stats.gaps;
+            const droppedBefore = stats.droppedBytes;
 
-                // Try a safe resync strategy:
-                // If we have a buffer that looks like a valid framed packet, use the current TCP seqno
-                // Otherwise, attempt to set tcp_next_seq to seqno + buf.length as a heuristic.
-                try {
-                    if (buf.length > 4) {
-                        const possibleLen = buf.readUInt32BE();
-                        if (
-                            possibleLen > 0 &&
-                            possibleLen < 0x0fffff &&
-                            buf.length >= possibleLen
-                        ) {
-                            // buffer looks like a full framed packet; assume this sequence is current
-                            this.tcp_next_seq = tcpPacket.info.seqno;
-                            this.logger.debug(
-                                `Resyncing tcp_next_seq -> ${this.tcp_next_seq} (full packet detected, len=${possibleLen})`,
-                            );
-                        } else {
-                            // fallback heuristic: assume next seq is seqno + buffer length
-                            this.tcp_next_seq =
-                                (tcpPacket.info.seqno + buf.length) >>> 0;
-                            this.logger.debug(
-                                `Heuristic resync tcp_next_seq -> ${this.tcp_next_seq} (seqno=${tcpPacket.info.seqno}, bufLen=${buf.length})`,
-                            );
-                        }
-                    } else {
-                        // not enough data to make a decision; set to seqno
-                        this.tcp_next_seq = tcpPacket.info.seqno;
-                        this.logger.debug(
-                            `Minimal resync tcp_next_seq -> ${this.tcp_next_seq} (low buffer length=${buf.length})`,
-                        );
-                    }
-                } catch (e) {
-                    this.logger.warn(
-                        "Failed to resync tcp_next_seq automatically:",
-                        e,
-                    );
-                    // leave tcp_next_seq as -1 if resync failed
-                }
-            }
+            const frames = stream.push(tcpPacket.info.seqno, buf, nowMs());
 
-            if (
-                (this.tcp_next_seq - tcpPacket.info.seqno) << 0 <= 0 ||
-                this.tcp_next_seq === -1
-            ) {
-                this.tcp_cache.set(tcpPacket.info.seqno, buf);
+            if (stats.gaps > gapsBefore) {
+                this.logger.warn(
+                    `TCP gap skipped on ${src_server}: ${stats.droppedBytes - droppedBefore} bytes lost (${stats.gaps} gaps so far), statistics may undercount`,
+                );
             }
-            while (this.tcp_cache.has(this.tcp_next_seq)) {
-                const seq = this.tcp_next_seq;
-                const cachedTcpData = this.tcp_cache.get(seq);
-                this.#data =
-                    this.#data.length === 0
-                        ? cachedTcpData
-                        : Buffer.concat([this.#data, cachedTcpData]);
-                this.tcp_next_seq = (seq + cachedTcpData.length) >>> 0;
-                this.tcp_cache.delete(seq);
-                this.tcp_last_time = Date.now();
+            if (this.PacketProcessor) {
+                for (const packet of frames) {
+                    this.#recordFrame(packet);
+                    this.PacketProcessor.processPacket(packet);
+                }
             }
+        } finally {
+            this.tcp_lock.release();
+        }
+    }
 
-            while (this.#data.length > 4) {
-                let packetSize = this.#data.readUInt32BE();
+    // A new game server always ends the running encounter; statistics are
+    // only cleared when enabled and no pause->resume happened in between.
+    #handleServerChange() {
+        this.userDataManager.encounters.endEncounter("server-change");
+        this.userDataManager.refreshEnemyCache();
+        if (
+            !this.globalSettings.autoClearOnServerChange ||
+            this.userDataManager.users.size === 0
+        )
+            return;
 
-                if (this.#data.length < packetSize) break;
+        const lp = this.globalSettings.lastPausedAt || 0;
+        const lr = this.globalSettings.lastResumedAt || 0;
+        const wasPausedThenResumed = lp > 0 && lr > lp;
+        if (!wasPausedThenResumed) {
+            this.userDataManager.clearAll("server-change");
+            console.log("Server changed, statistics cleared!");
+        } else {
+            console.log(
+                "Server changed detected but skip clear because pause->resume was observed.",
+            );
+        }
+        // Reset pause/resume markers so they don't affect future checks
+        this.globalSettings.lastPausedAt = null;
+        this.globalSettings.lastResumedAt = null;
+    }
 
-                if (this.#data.length >= packetSize) {
-                    const packet = this.#data.subarray(0, packetSize);
-                    this.#data = this.#data.subarray(packetSize);
-                    if (this.PacketProcessor) {
-                        this.PacketProcessor.processPacket(packet);
-                    }
-                } else if (packetSize > 0x0fffff) {
-                    this.logger.error(
-                        `Invalid Length!! ${this.#data.length},${packetSize},${this.#data.toString("hex")},${this.tcp_next_seq}`,
-                    );
-                    process.exit(1);
-                    break;
-                }
+    // Opt-in raw recording of reassembled server-to-client frames, controlled
+    // by the enableSessionRecording setting. See sessionRecorder.ts.
+    #recordFrame(packet: Buffer) {
+        if (!this.globalSettings.enableSessionRecording) {
+            if (this.#sessionRecorder) this.stopSessionRecording();
+            return;
+        }
+
+        try {
+            if (!this.#sessionRecorder) {
+                this.#sessionRecorder = SessionRecorder.createInSessionsDir();
+                this.logger.info(
+                    `Recording game session to ${this.#sessionRecorder.filePath}`,
+                );
             }
-        } finally {
-            this.tcp_lock.release();
+            this.#sessionRecorder.setServerEndpoint(this.current_server);
+            this.#sessionRecorder.setLocalPlayerUuid(
+                this.PacketProcessor.getLocalPlayerUuid(),
+            );
+            this.#sessionRecorder.writeFrame(packet);
+        } catch (e) {
+            this.logger.warn("Failed to record game frame:", e);
         }
     }
 
+    async stopSessionRecording(): Promise<void> {
+        const recorder = this.#sessionRecorder;
+        if (!recorder) return;
+        this.#sessionRecorder = null;
+        await recorder.close();
+        this.logger.info(
+            `Session recording saved to ${recorder.filePath} (${recorder.frames} frames)`,
+        );
+    }
+
     async start(
-        deviceNum: number | string,
+        deviceNum: number | string | (number | string)[],
         PacketProcessorClass: typeof PacketProcessor,
     ) {
         const npcapReady = await checkAndInstallNpcap(this.logger);
@@ -512,21 +638,30 @@ class Sniffer {
 
         const devices = Cap.deviceList();
 
-        let num = deviceNum;
-        if (num === undefined || num === "auto") {
-            let deviceFound = false;
-            while (!deviceFound) {
-                const device_num = await findDefaultNetworkDevice(devices);
-                if (device_num !== undefined) {
-                    num = device_num;
-                    deviceFound = true;
-                } else {
-                    await new Promise((resolve) => setTimeout(resolve, 3000));
+        const indexes: number[] = [];
+        const requested = Array.isArray(deviceNum) ? deviceNum : [deviceNum];
+        for (const entry of requested) {
+            let num: number | undefined;
+            if (entry === undefined || entry === null || entry === "auto") {
+                while (num === undefined) {
+                    num = await findDefaultNetworkDevice(devices);
+                    if (num === undefined) {
+                        await new Promise((resolve) =>
+                            setTimeout(resolve, 3000),
+                        );
+                    }
+                }
+            } else {
+                num = resolveDevice(devices, entry);
+                if (num === undefined) {
+                    this.logger.warn(`Capture device ${entry} not found`);
+                    continue;
                 }
             }
+            if (!indexes.includes(num)) indexes.push(num);
         }
 
-        if (num === undefined || !devices[num]) {
+        if (indexes.length === 0) {
             this.logger.error(
                 "Could not automatically detect a valid network interface.",
             );
@@ -534,35 +669,22 @@ class Sniffer {
             throw new Error("No se pudo detectar una interfaz de red válida.");
         }
 
-        this.PacketProcessor = new PacketProcessorClass({
-            logger: this.logger,
-            userDataManager: this.userDataManager,
-        });
+        this.PacketProcessor = await this.#createParser(PacketProcessorClass);
 
-        const device = devices[num].name;
-        const filter = "ip and tcp";
-        const bufSize = 10 * 1024 * 1024;
-        const buffer = Buffer.alloc(65535);
-        this.capInstance = new Cap();
-        const linkType = this.capInstance.open(device, filter, bufSize, buffer);
-        if (linkType !== "ETHERNET") {
-            this.logger.error(
-                "The device seems to be WRONG! Please check the device! Device type: " +
-                    linkType,
-            );
+        this.#captures = [];
+        this.#seenPackets.clear();
+        this.#lastGameTrafficAt = null;
+        for (const index of indexes) {
+            this.#openDevice(devices, index);
         }
-        this.capInstance.setMinBytes && this.capInstance.setMinBytes(0);
-        this.capInstance.on("packet", async (nbytes, trunc) => {
-            this.eth_queue.push(Buffer.from(buffer.subarray(0, nbytes)));
-        });
 
         this.running = true;
 
         (async () => {
             while (this.running) {
                 if (this.eth_queue.length) {
-                    const pkt = this.eth_queue.shift();
-                    this.processEthPacket(pkt);
+                    const { data, capture } = this.eth_queue.shift()!;
+                    this.processPacket(data, capture.linkType, capture);
                 } else {
                     await new Promise((r) => setTimeout(r, 1));
                 }
@@ -586,40 +708,345 @@ class Sniffer {
             }
 
             if (
-                this.tcp_last_time &&
-                Date.now() - this.tcp_last_time > this.FRAGMENT_TIMEOUT
+                this.tcpStream &&
+                Date.now() - this.tcpStream.lastDeliveredAt >
+                    this.FRAGMENT_TIMEOUT
             ) {
                 this.logger.warn(
                     "Cannot capture the next packet! Is the game closed or disconnected? seq: " +
-                        this.tcp_next_seq,
+                        this.tcpStream.nextSeq,
                 );
                 this.current_server = "";
                 this.clearTcpCache();
             }
+
+            this.#checkFailover();
         }, 1000);
     }
 
-    // Stop the sniffer safely, closing the capture device and clearing timers/loops.
-    async stop(): Promise<void> {
+    async #createParser(
+        PacketProcessorClass: typeof PacketProcessor,
+    ): Promise<PacketProcessor | ParserThread> {
+        await this.#stopParser();
+        if (ParserThread.isAvailable()) {
+            const parser = new ParserThread(
+                this.logger,
+                this.userDataManager,
+                PacketProcessorClass,
+            );
+            this.userDataManager.onEnemyCacheRefresh = () =>
+                parser.resetEnemies();
+            return parser;
+        }
+        this.logger.warn(
+            `Parser worker not found at ${PARSER_WORKER_PATH}, decoding on the main thread`,
+        );
+        return new PacketProcessorClass({
+            logger: this.logger,
+            userDataManager: this.userDataManager,
+        });
+    }
+
+    async #stopParser() {
+        const parser = this.PacketProcessor;
+        this.PacketProcessor = null;
+        this.userDataManager.onEnemyCacheRefresh = null;
+        if (parser instanceof ParserThread) await parser.terminate();
+    }
+
+    // Waits until every frame handed to the parser has been applied
+    async #flushParser() {
+        if (this.PacketProcessor instanceof ParserThread) {
+            await this.PacketProcessor.flush();
+        }
+    }
+
+    #openDevice(devices: cap.DeviceInfo[], index: number): CaptureDevice {
+        const device = devices[index];
+        const buffer = Buffer.alloc(65535);
+        const capInstance = new Cap();
+        const capLinkType = capInstance.open(
+            device.name,
+            CAPTURE_FILTER,
+            CAPTURE_BUFFER_SIZE,
+            buffer,
+        );
+        let linkType = linkTypeFromCap(capLinkType);
+        if (!linkType) {
+            this.logger.error(
+                "The device seems to be WRONG! Please check the device! Device type: " +
+                    capLinkType,
+            );
+            linkType = "ETHERNET";
+        }
+        capInstance.setMinBytes && capInstance.setMinBytes(0);
+
+        const capture: CaptureDevice = {
+            index,
+            name: device.name,
+            description: device.description || "",
+            linkType,
+            packets: 0,
+            lastPacketAt: null,
+            lastGameTrafficAt: null,
+            cap: capInstance,
+        };
+        capInstance.on("packet", async (nbytes, trunc) => {
+            this.eth_queue.push({
+                data: Buffer.from(buffer.subarray(0, nbytes)),
+                capture,
+            });
+        });
+        this.#captures.push(capture);
+        this.logger.info(
+            `Capturing on ${capture.description || capture.name} (${linkType})`,
+        );
+        return capture;
+    }
+
+    #closeDevice(capture: CaptureDevice) {
         try {
-            this.running = false;
+            capture.cap.close();
+        } catch (e) {
+            this.logger.warn("Error while closing cap instance:", e);
+        }
+        this.#captures = this.#captures.filter((c) => c !== capture);
+        this.eth_queue = this.eth_queue.filter((f) => f.capture !== capture);
+    }
+
+    // The same packet captured on two adapters (a bridge, or Linux "any"
+    // next to a real device) must only be processed once. Repeats on the
+    // same adapter are real retransmissions and go through.
+    #isDuplicate(ipPacket: IpPacket, capture: CaptureDevice): boolean {
+        const now = Date.now();
+        for (const [key, seen] of this.#seenPackets) {
+            if (now - seen.time <= DEDUP_WINDOW_MS) break;
+            this.#seenPackets.delete(key);
+        }
+
+        // The start of the payload holds the TCP ports, sequence numbers and
+        // checksum, which tells segments apart
+        const fragment = ipPacket.fragment;
+        const key = [
+            ipPacket.srcaddr,
+            ipPacket.dstaddr,
+            ipPacket.protocol,
+            fragment ? `${fragment.id}/${fragment.offset}` : "",
+            ipPacket.payload.length,
+            ipPacket.payload.subarray(0, 32).toString("hex"),
+        ].join("|");
+
+        const seen = this.#seenPackets.get(key);
+        if (seen && seen.device !== capture.index) {
+            this.#duplicates++;
+            return true;
+        }
+        // Re-insert so the map stays ordered by time
+        this.#seenPackets.delete(key);
+        this.#seenPackets.set(key, { device: capture.index, time: now });
+        return false;
+    }
+
+    #markGameTraffic(capture: CaptureDevice | null) {
+        const now = Date.now();
+        this.#lastGameTrafficAt = now;
+        if (capture) capture.lastGameTrafficAt = now;
+    }
+
+    // Starts a failover when the game was connected but every adapter has
+    // gone quiet, e.g. Wi-Fi dropped for Ethernet or a VPN was toggled
+    #checkFailover() {
+        const lastGameTrafficAt = this.#lastGameTrafficAt;
+        if (
+            lastGameTrafficAt === null ||
+            this.#failingOver ||
+            this.isPaused ||
+            this.replayStatus?.running
+        ) {
+            return;
+        }
+        const now = Date.now();
+        const silence = now - lastGameTrafficAt;
+        if (
+            silence < FAILOVER_SILENCE_MS ||
+            silence > FAILOVER_GIVE_UP_MS ||
+            now - this.#lastFailoverAt < FAILOVER_RETRY_MS
+        ) {
+            return;
+        }
+        // The adapter that carried the game last; if it still sees other
+        // traffic it is up and the game is just quiet
+        const active = this.#captures.reduce<CaptureDevice | null>(
+            (best, c) =>
+                (c.lastGameTrafficAt ?? 0) > (best?.lastGameTrafficAt ?? 0)
+                    ? c
+                    : best,
+            null,
+        );
+        if (
+            !active ||
+            (active.lastPacketAt !== null &&
+                now - active.lastPacketAt < FAILOVER_SILENCE_MS)
+        ) {
+            return;
+        }
+
+        this.#lastFailoverAt = now;
+        this.#failingOver = true;
+        this.logger.warn(
+            `No traffic on ${active.description || active.name} for ${Math.round(silence / 1000)}s, looking for another adapter...`,
+        );
+        this.#failover(active)
+            .catch((e) => this.logger.warn("Adapter failover failed:", e))
+            .finally(() => {
+                this.#failingOver = false;
+            });
+    }
+
+    // Replaces the silent adapter with the busiest one not captured yet
+    async #failover(silent: CaptureDevice) {
+        const captures = this.#captures;
+        const devices = Cap.deviceList();
+        const index = await findBusiestDevice(
+            devices,
+            captures.map((c) => c.index),
+        );
+        // Stopped or restarted while probing
+        if (!this.running || this.#captures !== captures) return;
+        if (index === undefined) {
+            this.logger.info("No other adapter carries traffic, will retry");
+            return;
+        }
+
+        const capture = this.#openDevice(devices, index);
+        this.#closeDevice(silent);
+        this.#failovers++;
+
+        // The game reconnects over the new route, so detect it again
+        this.current_server = "";
+        this.clearTcpCache();
+        this.fragmentIpCache.clear();
+        this.logger.warn(
+            `Switched capture from ${silent.description || silent.name} to ${capture.description || capture.name}`,
+        );
+    }
+
+    // Replay a saved pcap/pcapng capture through the same reassembly, server
+    // detection and packet processing path used for live capture. Statistics
+    // are timed with the capture timestamps while the replay runs.
+    async replay(
+        filePath: string,
+        PacketProcessorClass: typeof PacketProcessor,
+        options: ReplayOptions = {},
+    ): Promise<ReplayStatus> {
+        const speed =
+            options.speed === undefined
+                ? 1
+                : Math.max(0, Number(options.speed) || 0);
+
+        this.PacketProcessor = await this.#createParser(PacketProcessorClass);
+        this.current_server = "";
+        this.fragmentIpCache.clear();
+        this.clearTcpCache();
+
+        const status: ReplayStatus = {
+            file: filePath,
+            speed,
+            running: true,
+            packets: 0,
+            skipped: 0,
+            startedAt: Date.now(),
+            finishedAt: null,
+            error: null,
+        };
+        this.replayStatus = status;
+        this.running = true;
+
+        let captureTime = Date.now();
+        let firstCaptureTime: number | null = null;
+        const wallStart = Date.now();
+        setTimeSource(() => captureTime);
+
+        this.logger.info(
+            `Replaying capture ${filePath} (speed: ${speed === 0 ? "max" : speed + "x"})`,
+        );
+
+        try {
+            const reader = new PcapReader(filePath);
+            for await (const record of reader.records()) {
+                // Stopped, or superseded by another replay
+                if (!this.running || this.replayStatus !== status) break;
+
+                const linkType = linkTypeFromPcap(record.linkType);
+                if (!linkType) {
+                    status.skipped++;
+                    continue;
+                }
+
+                if (!isNaN(record.timestamp)) captureTime = record.timestamp;
+                if (firstCaptureTime === null) firstCaptureTime = captureTime;
+
+                if (speed > 0) {
+                    const delay =
+                        wallStart +
+                        (captureTime - firstCaptureTime) / speed -
+                        Date.now();
+                    if (delay > 1) {
+                        await new Promise((r) => setTimeout(r, delay));
+                    }
+                } else if (status.packets % 1000 === 0) {
+                    // Let the parser catch up, which also yields so the API
+                    // stays responsive during fast replays
+                    await this.#flushParser();
+                    await new Promise((r) => setImmediate(r));
+                }
 
-            // Close cap instance if open
-            if (this.capInstance) {
                 try {
-                    this.capInstance.close();
+                    await this.processPacket(record.data, linkType);
+                    status.packets++;
                 } catch (e) {
-                    this.logger.warn("Error while closing cap instance:", e);
+                    status.skipped++;
                 }
-                this.capInstance = null;
             }
+            this.logger.info(
+                `Replay finished: ${status.packets} packets processed, ${status.skipped} skipped`,
+            );
+        } catch (e: Error | any) {
+            status.error = e.message;
+            this.logger.error(`Replay of ${filePath} failed: ${e.message}`);
+        } finally {
+            status.running = false;
+            status.finishedAt = Date.now();
+            if (this.replayStatus === status) {
+                await this.#flushParser();
+                // Close the last fight at its capture time
+                this.userDataManager.encounters.endEncounter("capture-end");
+                setTimeSource(null);
+                this.running = false;
+            }
+        }
+
+        return status;
+    }
+
+    // Stop the sniffer safely, closing the capture devices and clearing timers/loops.
+    async stop(): Promise<void> {
+        try {
+            this.running = false;
+
+            // Close every open cap instance
+            for (const capture of this.#captures) {
+                this.#closeDevice(capture);
+            }
+            this.#captures = [];
+            this.#seenPackets.clear();
 
             // Clear the processing queue and packet processor
             try {
                 this.eth_queue = [];
                 this.fragmentIpCache.clear();
                 this.clearTcpCache();
-                this.PacketProcessor = null;
+                await this.#stopParser();
             } catch (e) {
                 this.logger.warn(
                     "Error while clearing sniffer internal state:",
@@ -627,6 +1054,8 @@ class Sniffer {
                 );
             }
 
+            await this.stopSessionRecording();
+
             // Clear the fragment cleanup interval
             if (this.#fragmentCleanerInterval) {
                 clearInterval(this.#fragmentCleanerInterval);
@@ -0,0 +1,258 @@
+import type { TcpReassemblyStats } from "../types";
+
+// Game frames are prefixed with their total size (u32 BE) and a u16 message
+// type (high bit = zstd). Anything outside these bounds is not a frame start.
+const FRAME_HEADER_SIZE = 6;
+const MAX_FRAME_SIZE = 0x0fffff;
+const MIN_MESSAGE_TYPE = 1; // Call
+const MAX_MESSAGE_TYPE = 6; // FrameDown
+
+// Bytes buffered ahead of a hole before the hole is given up on
+const DEFAULT_WINDOW_BYTES = 1024 * 1024;
+// How long the oldest out-of-order segment may wait for the hole to fill
+const DEFAULT_GAP_TIMEOUT_MS = 2000;
+
+export interface TcpReassemblerOptions {
+    windowBytes?: number;
+    gapTimeoutMs?: number;
+}
+
+interface PendingSegment {
+    data: Buffer;
+    receivedAt: number;
+}
+
+// Signed distance from b to a in 32-bit sequence space
+function seqDiff(a: number, b: number): number {
+    return (a - b) | 0;
+}
+
+function seqAdd(seq: number, length: number): number {
+    return (seq + length) >>> 0;
+}
+
+function isFrameHeader(data: Buffer, offset: number): boolean {
+    if (data.length - offset < FRAME_HEADER_SIZE) return false;
+    const size = data.readUInt32BE(offset);
+    const type = data.readUInt16BE(offset + 4) & 0x7fff;
+    return (
+        size >= FRAME_HEADER_SIZE &&
+        size <= MAX_FRAME_SIZE &&
+        type >= MIN_MESSAGE_TYPE &&
+        type <= MAX_MESSAGE_TYPE
+    );
+}
+
+/**
+ * Reassembles one direction of a TCP stream into game frames.
+ *
+ * Segments ahead of the expected sequence number wait in a bounded window
+ * for the hole before them to fill. When the window overflows or the oldest
+ * waiting segment times out, the hole is skipped: the partial frame before it
+ * is dropped and frame parsing resumes at the first plausible frame header
+ * after it. Sequence numbers are compared modulo 2^32, so streams survive
+ * wraparound.
+ */
+export class TcpReassembler {
+    public stats: TcpReassemblyStats;
+    public lastDeliveredAt: number;
+    #nextSeq: number;
+    #pending: Map<number, PendingSegment>;
+    #data: Buffer;
+    #inSync: boolean;
+    #windowBytes: number;
+    #gapTimeoutMs: number;
+
+    // nextSeq is the sequence number of the first byte of a frame
+    constructor(
+        nextSeq: number,
+        now: number,
+        options: TcpReassemblerOptions = {},
+    ) {
+        this.#nextSeq = nextSeq >>> 0;
+        this.#pending = new Map();
+        this.#data = Buffer.alloc(0);
+        this.#inSync = true;
+        this.#windowBytes = options.windowBytes ?? DEFAULT_WINDOW_BYTES;
+        this.#gapTimeoutMs = options.gapTimeoutMs ?? DEFAULT_GAP_TIMEOUT_MS;
+        this.lastDeliveredAt = now;
+        this.stats = {
+            segments: 0,
+            bytes: 0,
+            frames: 0,
+            retransmits: 0,
+            outOfOrder: 0,
+            gaps: 0,
+            droppedBytes: 0,
+            resyncs: 0,
+            pendingSegments: 0,
+            pendingBytes: 0,
+            lastGapAt: null,
+        };
+    }
+
+    get nextSeq(): number {
+        return this.#nextSeq;
+    }
+
+    // Adds a segment and returns the frames it completed, in stream order
+    push(seq: number, payload: Buffer, now: number): Buffer[] {
+        if (payload.length > 0) {
+            this.stats.segments++;
+            this.#accept(seq >>> 0, payload, now);
+        }
+        const frames: Buffer[] = [];
+        this.#drain(now, frames);
+        this.#skipGapIfStuck(now, frames);
+        this.stats.pendingSegments = this.#pending.size;
+        this.stats.pendingBytes = this.#pendingBytes();
+        return frames;
+    }
+
+    #accept(seq: number, payload: Buffer, now: number): void {
+        const offset = seqDiff(this.#nextSeq, seq);
+        if (offset >= payload.length) {
+            this.stats.retransmits++;
+            return;
+        }
+        if (offset > 0) {
+            // Overlaps data already delivered; keep only the new tail
+            this.stats.retransmits++;
+            payload = payload.subarray(offset);
+            seq = this.#nextSeq;
+        }
+
+        const existing = this.#pending.get(seq);
+        if (existing) {
+            this.stats.retransmits++;
+            if (existing.data.length >= payload.length) return;
+        } else if (seq !== this.#nextSeq) {
+            this.stats.outOfOrder++;
+        }
+        this.#pending.set(seq, {
+            data: payload,
+            receivedAt: existing?.receivedAt ?? now,
+        });
+    }
+
+    // Moves contiguous pending segments into the frame buffer
+    #drain(now: number, frames: Buffer[]): void {
+        let advanced = false;
+        for (;;) {
+            let segmentSeq: number | null = null;
+            for (const seq of this.#pending.keys()) {
+                if (seqDiff(seq, this.#nextSeq) <= 0) {
+                    segmentSeq = seq;
+                    break;
+                }
+            }
+            if (segmentSeq === null) break;
+
+            const segment = this.#pending.get(segmentSeq)!;
+            this.#pending.delete(segmentSeq);
+            const overlap = seqDiff(this.#nextSeq, segmentSeq);
+            if (overlap >= segment.data.length) continue;
+
+            const data = segment.data.subarray(overlap);
+            this.#data =
+                this.#data.length === 0
+                    ? data
+                    : Buffer.concat([this.#data, data]);
+            this.#nextSeq = seqAdd(this.#nextSeq, data.length);
+            this.stats.bytes += data.length;
+            advanced = true;
+        }
+        if (advanced) {
+            this.lastDeliveredAt = now;
+            this.#extractFrames(frames);
+        }
+    }
+
+    #skipGapIfStuck(now: number, frames: Buffer[]): void {
+        while (this.#pending.size > 0) {
+            let firstSeq: number | null = null;
+            let oldest = Infinity;
+            for (const [seq, segment] of this.#pending) {
+                if (firstSeq === null || seqDiff(seq, firstSeq) < 0) {
+                    firstSeq = seq;
+                }
+                oldest = Math.min(oldest, segment.receivedAt);
+            }
+            if (
+                this.#pendingBytes() <= this.#windowBytes &&
+                now - oldest <= this.#gapTimeoutMs
+            ) {
+                return;
+            }
+
+            // The hole is not going to fill: drop it and the partial frame
+            const missing = seqDiff(firstSeq!, this.#nextSeq);
+            this.stats.gaps++;
+            this.stats.droppedBytes += missing + this.#data.length;
+            this.stats.lastGapAt = now;
+            this.#data = Buffer.alloc(0);
+            this.#nextSeq = firstSeq!;
+            this.#inSync = false;
+            this.#drain(now, frames);
+        }
+    }
+
+    #extractFrames(frames: Buffer[]): void {
+        for (;;) {
+            if (!this.#inSync && !this.#resync()) return;
+            if (this.#data.length < FRAME_HEADER_SIZE) return;
+            if (!isFrameHeader(this.#data, 0)) {
+                // Corrupt length or type: look for the next frame start
+                this.#inSync = false;
+                continue;
+            }
+            const size = this.#data.readUInt32BE(0);
+            if (this.#data.length < size) return;
+            frames.push(this.#data.subarray(0, size));
+            this.stats.frames++;
+            this.#data = this.#data.subarray(size);
+        }
+    }
+
+    // Finds the next frame start in the buffer. A candidate counts once the
+    // header right after it checks out too; returns false to wait for data.
+    #resync(): boolean {
+        const data = this.#data;
+        let unconfirmed: number | null = null;
+        for (let i = 0; i + FRAME_HEADER_SIZE <= data.length; i++) {
+            if (!isFrameHeader(data, i)) continue;
+            const end = i + data.readUInt32BE(i);
+            if (end + FRAME_HEADER_SIZE > data.length) {
+                unconfirmed ??= i;
+                continue;
+            }
+            if (!isFrameHeader(data, end)) continue;
+            this.#dropFront(i);
+            this.#inSync = true;
+            this.stats.resyncs++;
+            return true;
+        }
+        // Keep the earliest candidate that can't be confirmed yet, or else
+        // the tail that could still be the start of a header
+        this.#dropFront(
+            unconfirmed ?? Math.max(0, data.length - (FRAME_HEADER_SIZE - 1)),
+        );
+        return false;
+    }
+
+    #dropFront(length: number): void {
+        if (length <= 0) return;
+        this.stats.droppedBytes += length;
+        this.#data = this.#data.subarray(length);
+    }
+
+    #pendingBytes(): number {
+        let total = 0;
+        for (const segment of this.#pending.values()) {
+            total += segment.data.length;
+        }
+        return total;
+    }
+}
+
+export default TcpReassembler;
@@ -72,6 +72,8 @@ export interface GlobalSettings {
     isPaused: boolean;
     enableFightLog?: boolean;
     enableHistorySave?: boolean;
+    // Record reassembled game frames to a session capture file
+    enableSessionRecording?: boolean;
     autoClearOnTimeout?: boolean;
     autoClearOnServerChange?: boolean;
     onlyRecordEliteDummy?: boolean;
@@ -83,11 +85,117 @@ export interface GlobalSettings {
         group?: { width: number; height: number };
         history?: { width: number; height: number };
     };
-    // Selected capture device (index or name)
-    selectedDevice?: number | string | null;
+    // Selected capture device (index or name), several to capture on all of
+    // them, or "auto"
+    selectedDevice?: number | string | (number | string)[] | null;
     // Timestamps to track when pause/resume happened (milliseconds since epoch)
     lastPausedAt?: number | null;
     lastResumedAt?: number | null;
+    // Time spent paused during the running encounter
+    totalPausedMs?: number;
+}
+
+export interface ReplayOptions {
+    // Playback speed multiplier: 1 = realtime, 4 = four times faster,
+    // 0 = as fast as possible (see parseReplaySpeed() in server/sniffer.ts)
+    speed?: number;
+}
+
+export interface ReplayStatus {
+    file: string;
+    speed: number;
+    running: boolean;
+    packets: number;
+    skipped: number;
+    startedAt: number;
+    finishedAt: number | null;
+    error: string | null;
+}
+
+// Counters of one reassembled TCP stream (see server/tcpReassembler.ts)
+export interface TcpReassemblyStats {
+    segments: number; // segments with payload seen on the stream
+    bytes: number; // payload bytes delivered in order
+    frames: number;
+    retransmits: number; // segments (or parts) already delivered or buffered
+    outOfOrder: number; // segments buffered ahead of a hole
+    gaps: number; // holes skipped because the data never arrived
+    droppedBytes: number; // missing bytes plus partial frames thrown away
+    resyncs: number; // times the frame boundary had to be searched for
+    pendingSegments: number;
+    pendingBytes: number;
+    lastGapAt: number | null;
+}
+
+export interface ParserStats {
+    decodeErrors: number; // frames that threw while being parsed
+    zstdFailures: number;
+    unknownMethodIds: Record<string, number>; // notify method id (hex) -> count
+}
+
+// An adapter the sniffer is capturing on
+export interface CaptureDeviceStatus {
+    index: number;
+    name: string;
+    description: string;
+    linkType: string;
+    packets: number;
+    lastPacketAt: number | null;
+    lastGameTrafficAt: number | null; // last packet of the game server stream
+}
+
+// Capture pipeline telemetry, from the network device to combat events
+export interface CaptureHealth {
+    running: boolean;
+    paused: boolean;
+    replaying: boolean;
+    server: string | null; // detected game server endpoint
+    packets: number;
+    bytes: number;
+    packetsPerSecond: number;
+    bytesPerSecond: number;
+    lastPacketAt: number | null;
+    tcp: TcpReassemblyStats; // totals over every server stream this run
+    parser: ParserStats;
+    lastCombatEventAt: number | null;
+    devices: CaptureDeviceStatus[];
+    duplicates: number; // packets dropped as copies from another adapter
+    failovers: number;
+}
+
+// Expected rotation for a class or class-subclass, stored as rotations/<name>.json
+export interface RotationTemplate {
+    name: string;
+    // "雷影剑士" matches the class, "雷影剑士-居合" only that subclass
+    profession: string;
+    // Expected order of the opening casts
+    sequence?: number[];
+    // Highest priority first; only skills with a cooldown are checked
+    priority?: number[];
+    // Expected cooldown in seconds per skill id
+    cooldowns?: Record<string, number>;
+    // Gaps between casts longer than this count as idle (default 2000)
+    maxIdleMs?: number;
+}
+
+export interface RotationDeviation {
+    type: "missed" | "order" | "priority" | "idle";
+    t: number; // ms since the session start
+    skillId?: number;
+    expectedSkillId?: number;
+    count?: number; // missed casts
+    durationMs?: number; // idle gaps
+}
+
+export interface RotationCheckResult {
+    template: string;
+    profession: string;
+    score: number; // 0-100
+    casts: number;
+    durationMs: number;
+    isDummy: boolean;
+    counts: Record<RotationDeviation["type"], number>;
+    deviations: RotationDeviation[];
 }
 
 export interface ApiResponse<T = any> {
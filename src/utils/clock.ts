@@ -0,0 +1,24 @@
+// Time source used by the statistics code. Live capture uses wall-clock time;
+// offline replay swaps in the capture timestamps so DPS windows stay faithful
+// regardless of playback speed.
+let timeSource: (() => number) | null = null;
+
+export const nowMs = (): number => {
+    return timeSource ? Math.floor(timeSource()) : Date.now();
+};
+
+export const setTimeSource = (source: (() => number) | null): void => {
+    timeSource = source;
+};
+
+// Runs fn with nowMs() pinned to time, e.g. to apply events decoded off the
+// main thread at the time their frame was captured
+export const runAt = <T>(time: number, fn: () => T): T => {
+    const previous = timeSource;
+    timeSource = () => time;
+    try {
+        return fn();
+    } finally {
+        timeSource = previous;
+    }
+};